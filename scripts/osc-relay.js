@@ -0,0 +1,56 @@
+/**
+ * OSC relay
+ *
+ * Puente local entre el navegador y los sintetizadores externos:
+ * recibe mensajes OSC binarios por WebSocket (OscBridge) y reenvía cada uno
+ * como datagrama UDP a Pure Data, SuperCollider o Max.
+ *
+ * Uso:
+ *   npm run osc-relay -- --ws-port 8765 --udp-host 127.0.0.1 --udp-port 9000
+ */
+import { createSocket } from 'node:dgram';
+import { parseArgs } from 'node:util';
+import { WebSocketServer } from 'ws';
+
+const { values } = parseArgs({
+  options: {
+    'ws-port': { type: 'string', default: '8765' },
+    'udp-host': { type: 'string', default: '127.0.0.1' },
+    'udp-port': { type: 'string', default: '9000' }
+  }
+});
+
+const wsPort = Number(values['ws-port']);
+const udpHost = values['udp-host'];
+const udpPort = Number(values['udp-port']);
+
+const udp = createSocket('udp4');
+
+// Solo se aceptan conexiones locales: el relay no debe exponerse a la red
+const server = new WebSocketServer({ host: '127.0.0.1', port: wsPort });
+
+server.on('connection', (socket, request) => {
+  console.log(`Browser connected from ${request.socket.remoteAddress}`);
+
+  socket.on('message', (data, isBinary) => {
+    if (!isBinary) return;
+
+    const packet = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data);
+    udp.send(packet, udpPort, udpHost, (error) => {
+      if (error) console.error('UDP send failed:', error.message);
+    });
+  });
+
+  socket.on('close', () => console.log('Browser disconnected'));
+});
+
+server.on('listening', () => {
+  console.log(`OSC relay: ws://127.0.0.1:${wsPort} -> udp://${udpHost}:${udpPort}`);
+});
+
+// Cerrar ordenadamente con Ctrl+C
+process.on('SIGINT', () => {
+  server.close();
+  udp.close();
+  process.exit(0);
+});
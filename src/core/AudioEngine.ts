@@ -1,32 +1,163 @@
 import * as Tone from 'tone';
-import type { AudioSignal, AudioConfig } from '../types';
+import type {
+  AudioSignal,
+  AudioConfig,
+  BlockAudioHints,
+  CharacterClass,
+  ParsedText,
+  SignalType,
+  SynthesisMode
+} from '../types';
+import { calculateVelocity } from '../utils/velocity';
+import { SynthesisModeRegistry, type SynthesisModeVoice } from './SynthesisModeRegistry';
+import { BOUNDARY_EVENTS } from './TypingSignals';
+import { DroneLayer } from './DroneLayer';
+import { ErrorVoice } from './ErrorVoice';
+import { CharacterTimbre } from './CharacterTimbre';
+import { Tuning } from './Tuning';
+import { Quantizer } from './Quantizer';
+
+/**
+ * Opciones para construir el motor fuera del contexto de audio global
+ * (por ejemplo, dentro de Tone.Offline para exportar a WAV)
+ */
+export interface AudioEngineOptions {
+  context?: Tone.BaseContext;
+  destination?: Tone.InputNode;
+}
+
+/**
+ * Golpe de ruido de un carácter que no es letra (modo estricto)
+ */
+interface PunctuationSound {
+  frequency: number; // Centro del filtro paso banda (Hz)
+  duration: number;  // s
+}
+
+/**
+ * Agudo para la puntuación, medio para los espacios y grave y largo para Enter
+ * (las letras y los dígitos usan el modo de síntesis)
+ */
+const PUNCTUATION_SOUNDS: Partial<Record<CharacterClass, PunctuationSound>> = {
+  punctuation: { frequency: 3200, duration: 0.05 },
+  symbol: { frequency: 2400, duration: 0.05 },
+  space: { frequency: 1200, duration: 0.03 },
+  lineBreak: { frequency: 400, duration: 0.2 }
+};
+
+/**
+ * Acordes de los finales de palabra, en semitonos sobre la tónica:
+ * vi - IV - V - I, resolviendo en la tónica cada cuatro palabras
+ */
+const WORD_PROGRESSION = [
+  [9, 12, 16],
+  [5, 9, 12],
+  [7, 11, 14],
+  [0, 4, 7]
+];
+
+/**
+ * Cadencia de fin de línea (V7 -> I), acorde del fin de bloque y arpegio de la coda
+ */
+const DOMINANT_CHORD = [7, 11, 14, 17];
+const TONIC_CHORD = [0, 4, 7, 12];
+const CODA_ARPEGGIO = [0, 4, 7, 12, 16, 19, 24];
+
+/**
+ * Límites del volumen (dB)
+ */
+export const VOLUME_RANGE = { min: -30, max: 0 };
+
+/**
+ * Configuración por defecto del motor
+ */
+export const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  volume: -10,
+  enabled: true,
+  noteDuration: '1n',
+  baseOctave: 4,
+  synthesisMode: 'granular',
+  reverbEnabled: true,
+  reverbAmount: 0.3,
+  delayEnabled: false,
+  delayAmount: 0.2,
+  panningEnabled: true,
+  droneEnabled: false,
+  droneLevel: 0.5,
+  characterPitch: 'position',
+  characterTimbre: false,
+  vowelFormants: false,
+  samplePack: '',
+  tuningRoot: 0,
+  scale: 'mode',
+  customScale: '0 2 3 5 7 8 10',
+  tuningSystem: 'equal',
+  edoDivisions: 19,
+  tempo: 120,
+  quantize: false,
+  quantizeSubdivision: '8n',
+  quantizeSwing: 0,
+  metronome: false,
+  errorSound: 'cluster',
+  errorEscalation: true
+};
 
 /**
  * AudioEngine - Enhanced version
  *
- * Motor de audio mejorado con múltiples modos de síntesis:
- * - Granular: Modo original (Pure Data inspired)
- * - Pentatonic: Escala pentatónica musical
- * - Harmonic: Serie armónica natural
- * - Microtonal: Escala microtonal exótica
- * - Ambient: Modo atmosférico con reverb y delay
+ * Motor de audio con modos de síntesis intercambiables: cada modo se
+ * registra en el SynthesisModeRegistry y el motor crea sus nodos la
+ * primera vez que lo necesita (ver modes/ para los modos incluidos).
  *
  * Incluye:
  * - Dinámica sensible a la velocidad de tecleado
  * - Audio espacial (panning estéreo)
  * - Efectos de reverb y delay
- * - Sonidos de error musicalmente interesantes
+ * - Sonidos de error con timbre a elegir, más intensos al fallar seguido la
+ *   misma letra (ver ErrorVoice)
+ * - Golpes de ruido para espacios y puntuación (modo estricto)
+ * - Una nota descendente al borrar con Backspace
+ * - Acordes al completar palabras, cadencias al completar líneas, un crescendo
+ *   al completar bloques y una coda al completar el texto
+ * - Un drone opcional que sigue sonando entre teclas (ver DroneLayer)
+ * - Timbre por letra opcional: consonantes con ruido y vocales con formantes
+ *   (ver CharacterTimbre); el grado de la escala puede salir de la propia letra
+ * - Tónica, escala y sistema de afinación compartidos por los modos musicales,
+ *   los acordes de los finales y el drone (ver Tuning)
+ * - Cuantización opcional a la rejilla de Tone.Transport, con swing y metrónomo
+ *   (ver Quantizer)
+ * - Un modo de muestras con paquetes incluidos o cargados del disco
+ *   (ver SamplePackLibrary); sus buffers se liberan con el modo en dispose()
+ *
+ * Todas las notas se programan en un tiempo explícito del contexto, así que
+ * el mismo motor sirve para tocar en vivo y para renderizar offline.
  */
 export class AudioEngine {
-  // Generadores principales
-  private oscillator: Tone.Oscillator;
-  private noise: Tone.Noise;
-  private synth: Tone.PolySynth;
+  // Modos de síntesis instanciados en este motor (creados bajo demanda)
+  private voices: Map<SynthesisMode, SynthesisModeVoice> = new Map();
+
+  // Voz de los errores, separada de la música
+  private errorVoice: ErrorVoice;
+
+  // Glissando descendente para los retrocesos (Backspace)
+  private retreatSynth: Tone.Synth;
+
+  // Acordes de los finales de palabra, línea y texto, y pad lento de los finales de bloque
+  private boundarySynth: Tone.PolySynth;
+  private swellSynth: Tone.PolySynth;
 
-  // Filtros y procesadores
-  private lowPassFilter: Tone.Filter;
-  private envelope: Tone.AmplitudeEnvelope;
-  private noiseEnvelope: Tone.AmplitudeEnvelope;
+  // Fondo continuo (opcional)
+  private drone: DroneLayer;
+
+  // Timbre de cada letra, entre los modos de síntesis y los efectos
+  private characterTimbre: CharacterTimbre;
+
+  // Rejilla de cuantización y metrónomo (opcional)
+  private quantizer: Quantizer;
+
+  // Ruido filtrado para espacios, puntuación y saltos de línea (modo estricto)
+  private punctuationSynth: Tone.NoiseSynth;
+  private punctuationFilter: Tone.Filter;
 
   // Efectos
   private reverb: Tone.Reverb;
@@ -37,120 +168,126 @@ export class AudioEngine {
   private effectsChain: Tone.Gain;
   private masterGain: Tone.Gain;
 
+  // Contexto de audio (el global por defecto)
+  private context: Tone.BaseContext;
+
   // Estado y configuración
   private config: AudioConfig;
   private isInitialized: boolean = false;
   private lastKeyPressTime: number = 0;
+  private lastWordChordTimestamp: number | null = null;
+  private textSettings: Partial<AudioConfig> = {}; // Cabecera del texto (no se guarda en la configuración)
+  private blockHints: BlockAudioHints[] = [];
 
-  // Escalas musicales
-  private readonly pentatonicScale = [0, 2, 4, 7, 9]; // Pentatonic major
-  private readonly harmonicSeries = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
-  private readonly microtonalScale = [0, 1.5, 3, 4.5, 6, 7.5, 9, 10.5]; // Cuartos de tono
+  constructor(config?: Partial<AudioConfig>, options: AudioEngineOptions = {}) {
+    const context = options.context ?? Tone.getContext();
+    this.context = context;
 
-  // Envelope shape
-  private readonly envelopeTime = 1.0;
-
-  constructor(config?: Partial<AudioConfig>) {
     this.config = {
-      volume: -10,
-      enabled: true,
-      noteDuration: '1n',
-      baseOctave: 4,
-      synthesisMode: 'granular',
-      reverbEnabled: true,
-      reverbAmount: 0.3,
-      delayEnabled: false,
-      delayAmount: 0.2,
-      panningEnabled: true,
+      ...DEFAULT_AUDIO_CONFIG,
       ...config
     };
 
-    // Crear sintetizador polifónico para modos musicales
-    this.synth = new Tone.PolySynth(Tone.Synth, {
-      oscillator: { type: 'sine' },
-      envelope: {
-        attack: 0.01,
-        decay: 0.3,
-        sustain: 0.3,
-        release: 0.7
-      }
-    });
+    if (!SynthesisModeRegistry.has(this.config.synthesisMode)) {
+      console.warn(`Unknown synthesis mode: ${this.config.synthesisMode}`);
+    }
 
-    // Oscilador sinusoidal para modo granular (osc~ 500 en PD)
-    this.oscillator = new Tone.Oscillator({
-      frequency: 500,
-      type: 'sine'
+    // Golpe de ruido corto para los caracteres que no son letras
+    this.punctuationSynth = new Tone.NoiseSynth({
+      context,
+      noise: { type: 'pink' },
+      envelope: { attack: 0.001, decay: 0.08, sustain: 0, release: 0.05 }
     });
 
-    // Ruido para modo granular (noise~ en PD)
-    this.noise = new Tone.Noise('white');
+    this.punctuationFilter = new Tone.Filter({
+      context,
+      type: 'bandpass',
+      frequency: 2000,
+      Q: 4
+    });
 
-    // Filtro low-pass para el ruido (lop~ en PD)
-    this.lowPassFilter = new Tone.Filter({
-      type: 'lowpass',
-      frequency: 200,
-      rolloff: -12
+    // Nota corta que cae al borrar
+    this.retreatSynth = new Tone.Synth({
+      context,
+      oscillator: { type: 'triangle' },
+      envelope: { attack: 0.005, decay: 0.1, sustain: 0, release: 0.05 }
     });
 
-    // Envelopes para modo granular
-    this.envelope = new Tone.AmplitudeEnvelope({
-      attack: 0.01,
-      decay: 0.3,
-      sustain: 0.3,
-      release: 0.7
+    // Acordes breves para los finales
+    this.boundarySynth = new Tone.PolySynth({
+      context,
+      voice: Tone.Synth,
+      options: {
+        oscillator: { type: 'triangle' },
+        envelope: { attack: 0.02, decay: 0.4, sustain: 0.2, release: 0.8 }
+      }
     });
 
-    this.noiseEnvelope = new Tone.AmplitudeEnvelope({
-      attack: 0.01,
-      decay: 0.3,
-      sustain: 0.3,
-      release: 0.7
+    // Pad que crece despacio para los finales de bloque y la coda
+    this.swellSynth = new Tone.PolySynth({
+      context,
+      voice: Tone.Synth,
+      options: {
+        oscillator: { type: 'sine' },
+        envelope: { attack: 0.8, decay: 0.5, sustain: 0.7, release: 2.5 }
+      }
     });
 
     // Efectos de audio
     this.reverb = new Tone.Reverb({
+      context,
       decay: 3,
       preDelay: 0.01,
       wet: this.config.reverbAmount
     });
 
     this.delay = new Tone.FeedbackDelay({
+      context,
       delayTime: '8n',
       feedback: 0.4,
       wet: this.config.delayAmount
     });
 
-    this.panner = new Tone.Panner(0);
+    this.panner = new Tone.Panner({ context, pan: 0 });
+
+    // El drone no se mueve con el panning: entra directamente en la reverb
+    this.drone = new DroneLayer({ context, output: this.reverb });
+    this.drone.setLevel(this.config.droneLevel);
 
     // Ganancia para la cadena de efectos
-    this.effectsChain = new Tone.Gain(1.0);
+    this.effectsChain = new Tone.Gain({ context, gain: 1.0 });
 
     // Ganancia master
-    this.masterGain = new Tone.Gain(0.1);
+    this.masterGain = new Tone.Gain({ context, gain: 0.1 });
+
+    // Modos de síntesis: Synth -> Timbre de la letra -> Efectos
+    this.characterTimbre = new CharacterTimbre({ context, output: this.effectsChain });
 
     // Construir la cadena de audio
-    // Modo granular: Ruido -> Filtro -> Envelope -> Efectos
-    this.noise.connect(this.lowPassFilter);
-    this.lowPassFilter.connect(this.noiseEnvelope);
-    this.noiseEnvelope.connect(this.effectsChain);
+    // Errores: Synth -> Efectos
+    this.errorVoice = new ErrorVoice({ context, output: this.effectsChain });
 
-    // Modo granular: Oscilador -> Envelope -> Efectos
-    this.oscillator.connect(this.envelope);
-    this.envelope.connect(this.effectsChain);
+    // Retrocesos: Synth -> Efectos
+    this.retreatSynth.connect(this.effectsChain);
 
-    // Modos musicales: Synth -> Efectos
-    this.synth.connect(this.effectsChain);
+    // Finales: Synth -> Efectos
+    this.boundarySynth.connect(this.effectsChain);
+    this.swellSynth.connect(this.effectsChain);
+
+    // Puntuación: Ruido -> Filtro -> Efectos
+    this.punctuationSynth.connect(this.punctuationFilter);
+    this.punctuationFilter.connect(this.effectsChain);
 
     // Cadena de efectos: Efectos -> Panner -> Reverb -> Delay -> Master -> Output
     this.effectsChain.connect(this.panner);
     this.panner.connect(this.reverb);
     this.reverb.connect(this.delay);
     this.delay.connect(this.masterGain);
-    this.masterGain.toDestination();
+    this.masterGain.connect(options.destination ?? context.destination);
 
-    // Iniciar generadores para modo granular
-    this.oscillator.start();
-    this.noise.start();
+    // El metrónomo no pasa por los efectos: Clic -> Master
+    this.quantizer = new Quantizer({ context, output: this.masterGain });
+    this.context.transport.bpm.value = this.config.tempo;
   }
 
   /**
@@ -159,195 +296,314 @@ export class AudioEngine {
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
-    await Tone.start();
+    // Un contexto offline no necesita interacción del usuario para arrancar
+    if (!(this.context instanceof Tone.OfflineContext)) {
+      await Tone.start();
+    }
     //console.log('Audio engine initialized (Pure Data style)');
     this.isInitialized = true;
   }
 
+  /**
+   * Se resuelve cuando la respuesta al impulso de la reverb está generada
+   */
+  get ready(): Promise<void> {
+    return this.reverb.ready;
+  }
+
+  /**
+   * Prepara los modos que usarán la configuración y las pistas de los bloques
+   * (p. ej. decodifica sus muestras). Se puede tocar antes de que termine:
+   * los modos que aún no están listos suenan con su alternativa.
+   */
+  async prepare(): Promise<void> {
+    const textConfig = { ...this.config, ...this.textSettings };
+    const configs = [textConfig, ...this.blockHints.map(hints => ({ ...textConfig, ...hints }))];
+    await Promise.all(configs.map(config => this.getVoice(config.synthesisMode)?.prepare?.(config)));
+  }
+
+  /**
+   * Aplica los ajustes de audio definidos en el texto:
+   * tempo y modo por defecto (cabecera) y pistas de audio por bloque.
+   * Se combinan con la configuración del usuario al tocar, sin cambiarla.
+   */
+  loadTextSettings(parsedText: ParsedText): void {
+    const { frontMatter } = parsedText;
+
+    const textSettings: Partial<AudioConfig> = {};
+    if (frontMatter.synthesisMode) textSettings.synthesisMode = frontMatter.synthesisMode;
+    if (frontMatter.tempo) textSettings.tempo = frontMatter.tempo;
+
+    this.textSettings = this.withKnownMode(textSettings);
+    this.blockHints = parsedText.blocks.map(block => this.withKnownMode(block.audioHints));
+
+    // El tempo afecta a las duraciones en notación musical ('8n', '2n', ...) y a la rejilla
+    this.applyTempo();
+  }
+
+  /**
+   * Ajustes de la cabecera del texto que están en vigor
+   */
+  getTextSettings(): Partial<AudioConfig> {
+    return { ...this.textSettings };
+  }
+
+  /**
+   * Deja de aplicar un ajuste de la cabecera hasta cargar otro texto
+   * (el usuario ha elegido otro valor en el panel)
+   */
+  releaseTextSetting(key: keyof AudioConfig): void {
+    delete this.textSettings[key];
+    if (key === 'tempo') this.applyTempo();
+  }
+
+  /**
+   * Pone el Transport al tempo en vigor: el de la cabecera del texto o el del usuario
+   */
+  private applyTempo(): void {
+    this.context.transport.bpm.value = this.textSettings.tempo ?? this.config.tempo;
+  }
+
   /**
    * Procesa una señal de audio y genera el sonido correspondiente
    * Soporta múltiples modos de síntesis y características avanzadas
+   * @param time Momento del contexto en que suena (por defecto, ahora)
+   * @returns Segundos desde ahora hasta el paso de la rejilla en que suena
+   *          (0 sin cuantizar), para que las salidas MIDI y OSC suenen con él
    */
-  processSignal(signal: AudioSignal): void {
-    if (!this.config.enabled || !this.isInitialized) return;
+  processSignal(signal: AudioSignal, time: number = this.context.now()): number {
+    if (!this.isInitialized) return 0;
+
+    // Con la cuantización, la tecla y sus finales suenan en el siguiente paso de la rejilla
+    // (también con el audio apagado, para las salidas externas)
+    let delay = 0;
+    if (this.config.quantize) {
+      time = this.quantizer.quantize(signal, time, this.config);
+      delay = Math.max(0, time - this.context.currentTime);
+    }
+
+    if (!this.config.enabled) return delay;
 
-    // Calcular velocidad de tecleado (para dinámica)
-    const now = Date.now();
-    const timeDelta = now - this.lastKeyPressTime;
-    const velocity = this.calculateVelocity(timeDelta);
-    this.lastKeyPressTime = now;
+    // Los finales comparten el timestamp de su tecla: no cuentan para la dinámica
+    if ((BOUNDARY_EVENTS as readonly SignalType[]).includes(signal.signalType)) {
+      this.playBoundarySound(signal, time);
+      return delay;
+    }
+
+    // Calcular velocidad de tecleado (para dinámica) a partir de los timestamps de las señales
+    const timeDelta = signal.timestamp - this.lastKeyPressTime;
+    let velocity = calculateVelocity(timeDelta);
+    this.lastKeyPressTime = signal.timestamp;
+
+    // Las palabras enfatizadas suenan más fuerte
+    if (signal.isEmphasized) {
+      velocity = Math.min(1, velocity + 0.3);
+    }
+
+    // Configuración efectiva: la del usuario más las pistas del bloque actual
+    const config = this.getSignalConfig(signal);
 
     // Calcular posición de panning basada en el progreso
     if (this.config.panningEnabled) {
       const panPosition = this.calculatePanning(signal);
-      this.panner.pan.rampTo(panPosition, 0.05);
+      this.panner.pan.rampTo(panPosition, 0.05, time);
     }
 
     // Ajustar efectos basados en el progreso del bloque
-    this.updateEffects(signal);
+    this.updateEffects(signal, config, time);
+
+    if (config.droneEnabled) {
+      this.drone.update(signal, velocity, time, config);
+    }
 
-    // Procesar error o nota correcta
-    if (signal.isError) {
-      this.playErrorSound(signal, velocity);
+    // Una tecla correcta calma la escalada de los errores
+    if (signal.signalType === 'keystroke' && !signal.isError) {
+      this.errorVoice.calm();
+    }
+
+    // Procesar retroceso, error, puntuación (modo estricto) o nota correcta
+    if (signal.signalType === 'retreat') {
+      this.playRetreatSound(signal, velocity, time);
+    } else if (signal.isError) {
+      // La repetición desafinada parte de la nota que el modo activo habría tocado
+      const expected = this.getVoice(config.synthesisMode)?.getFrequency?.(signal, config);
+      this.errorVoice.play(signal, velocity, time, config, expected);
+    } else if (PUNCTUATION_SOUNDS[signal.characterClass]) {
+      this.playPunctuationSound(PUNCTUATION_SOUNDS[signal.characterClass]!, velocity, time);
     } else {
-      this.playCorrectSound(signal, velocity);
+      this.playCorrectSound(signal, velocity, config, time);
     }
+
+    return delay;
   }
 
   /**
-   * Reproduce sonido para tecla correcta según el modo de síntesis
+   * Descarta el modo de síntesis de una configuración si no está registrado
    */
-  private playCorrectSound(signal: AudioSignal, velocity: number): void {
-    const now = Tone.now();
-
-    switch (this.config.synthesisMode) {
-      case 'granular':
-        this.playGranularSound(signal, velocity, now);
-        break;
+  private withKnownMode<T extends { synthesisMode?: SynthesisMode }>(config: T): T {
+    if (config.synthesisMode === undefined || SynthesisModeRegistry.has(config.synthesisMode)) {
+      return config;
+    }
 
-      case 'pentatonic':
-        this.playPentatonicSound(signal, velocity, now);
-        break;
+    console.warn(`Unknown synthesis mode: ${config.synthesisMode}`);
+    const { synthesisMode: _ignored, ...rest } = config;
+    return rest as T;
+  }
 
-      case 'harmonic':
-        this.playHarmonicSound(signal, velocity, now);
-        break;
+  /**
+   * Modo de síntesis con el que suena una señal (el del usuario, el de la cabecera o el de las pistas del bloque)
+   */
+  getSignalMode(signal: AudioSignal): SynthesisMode {
+    return this.getSignalConfig(signal).synthesisMode;
+  }
 
-      case 'microtonal':
-        this.playMicrotonalSound(signal, velocity, now);
-        break;
+  /**
+   * Crea un medidor de nivel conectado a la salida del motor (para visualizaciones)
+   */
+  createMeter(): Tone.Meter {
+    const meter = new Tone.Meter({ context: this.context, normalRange: true, smoothing: 0.8 });
+    this.masterGain.connect(meter);
+    return meter;
+  }
 
-      case 'ambient':
-        this.playAmbientSound(signal, velocity, now);
-        break;
-    }
+  /**
+   * Combina la configuración del usuario con la cabecera del texto y las
+   * pistas de audio del bloque de la señal
+   */
+  private getSignalConfig(signal: AudioSignal): AudioConfig {
+    return {
+      ...this.config,
+      ...this.textSettings,
+      ...this.blockHints[signal.blockIndexInText]
+    };
   }
 
   /**
-   * Modo granular (original Pure Data style)
+   * Reproduce sonido para tecla correcta con el modo de síntesis registrado
    */
-  private playGranularSound(signal: AudioSignal, velocity: number, now: number): void {
-    const filterFrequency = signal.wordIndexInBlock * 200;
-    const oscillatorFrequency = signal.letterIndexInWord * 200;
+  private playCorrectSound(signal: AudioSignal, velocity: number, config: AudioConfig, now: number): void {
+    this.characterTimbre.apply(signal, velocity, now, config);
+    this.getVoice(config.synthesisMode)?.play(signal, velocity, now, config);
+  }
 
-    const minFreq = 50;
-    const finalFilterFreq = Math.max(filterFrequency, minFreq);
-    const finalOscFreq = Math.max(oscillatorFrequency, minFreq);
+  /**
+   * Obtiene la instancia de un modo en este motor, creándola la primera vez
+   */
+  private getVoice(mode: SynthesisMode): SynthesisModeVoice | undefined {
+    const existing = this.voices.get(mode);
+    if (existing) return existing;
 
-    this.lowPassFilter.frequency.rampTo(finalFilterFreq, 0.01);
-    this.oscillator.frequency.rampTo(finalOscFreq, 0.01);
+    const definition = SynthesisModeRegistry.get(mode);
+    if (!definition) return undefined;
 
-    // Aplicar velocidad a la ganancia del envelope
-    const envelopeGain = 0.5 + (velocity * 0.5);
-    this.envelope.triggerAttackRelease(this.envelopeTime * envelopeGain, now);
-    this.noiseEnvelope.triggerAttackRelease(this.envelopeTime * envelopeGain, now);
+    const voice = definition.create({ context: this.context, output: this.characterTimbre.input });
+    this.voices.set(mode, voice);
+    return voice;
   }
 
   /**
-   * Modo pentatónico - Escala musical pentatónica mayor
+   * Reproduce un retroceso: una nota que cae, más grave cuanto más al
+   * principio de la palabra queda el cursor
    */
-  private playPentatonicSound(signal: AudioSignal, velocity: number, now: number): void {
-    const scaleIndex = signal.letterIndexInWord % this.pentatonicScale.length;
-    const octaveOffset = Math.floor(signal.wordIndexInBlock / 5);
-    const octave = this.config.baseOctave + octaveOffset;
-
-    const note = this.pentatonicScale[scaleIndex];
-    const frequency = Tone.Frequency(note + octave * 12, 'midi').toFrequency();
+  private playRetreatSound(signal: AudioSignal, velocity: number, now: number): void {
+    const position = signal.totalLettersInWord > 0 ? signal.letterIndexInWord / signal.totalLettersInWord : 0;
+    const startFrequency = 300 + position * 300;
 
-    const duration = this.calculateDuration(velocity);
-    const vol = -15 + (velocity * 10);
-
-    this.synth.triggerAttackRelease(frequency, duration, now, Math.pow(10, vol / 20));
+    const vol = -20 + (velocity * 8);
+    this.retreatSynth.triggerAttackRelease(startFrequency, 0.12, now, Math.pow(10, vol / 20));
+    this.retreatSynth.frequency.exponentialRampTo(startFrequency / 2, 0.12, now);
   }
 
   /**
-   * Modo armónico - Serie armónica natural
+   * Reproduce el final de una palabra, línea, bloque o del texto.
+   * Una misma tecla puede completar varias unidades: solo suena la mayor
+   * (el final del último bloque es el del texto, y el de la última palabra,
+   * el de su bloque), y la cadencia de línea corta el acorde de su palabra.
    */
-  private playHarmonicSound(signal: AudioSignal, velocity: number, now: number): void {
-    const fundamentalFreq = 55; // A1
-    const harmonicIndex = (signal.letterIndexInWord % this.harmonicSeries.length) + 1;
-    const harmonic = this.harmonicSeries[harmonicIndex - 1];
+  private playBoundarySound(signal: AudioSignal, now: number): void {
+    const isLastWord = signal.wordIndexInBlock === signal.totalWordsInBlock - 1;
+    const isLastBlock = signal.blockIndexInText === signal.totalBlocksInText - 1;
 
-    // Añadir modulación basada en la palabra
-    const wordModulation = 1 + (signal.wordIndexInBlock * 0.05);
-    const frequency = fundamentalFreq * harmonic * wordModulation;
+    const config = this.getSignalConfig(signal);
+    const tonic = config.tuningRoot + config.baseOctave * 12; // Tónica una octava por debajo de las letras
 
-    const duration = this.calculateDuration(velocity);
-    const vol = -18 + (velocity * 12);
+    switch (signal.signalType) {
+      case 'wordComplete': {
+        if (isLastWord) return;
 
-    this.synth.triggerAttackRelease(frequency, duration, now, Math.pow(10, vol / 20));
-  }
+        const chord = WORD_PROGRESSION[signal.wordIndexInBlock % WORD_PROGRESSION.length];
+        this.playChord(this.boundarySynth, tonic, chord, '8n', now, -24, config);
+        this.lastWordChordTimestamp = signal.timestamp;
+        break;
+      }
 
-  /**
-   * Modo microtonal - Escala en cuartos de tono
-   */
-  private playMicrotonalSound(signal: AudioSignal, velocity: number, now: number): void {
-    const scaleIndex = signal.letterIndexInWord % this.microtonalScale.length;
-    const octaveOffset = Math.floor(signal.wordIndexInBlock / 4);
-    const octave = this.config.baseOctave + octaveOffset;
+      case 'lineComplete': {
+        if (isLastWord) return;
 
-    const semitones = this.microtonalScale[scaleIndex] + (octave * 12);
-    const frequency = Tone.Frequency(semitones, 'midi').toFrequency();
+        if (this.lastWordChordTimestamp === signal.timestamp) {
+          this.boundarySynth.releaseAll(now);
+        }
+        this.playChord(this.boundarySynth, tonic, DOMINANT_CHORD, '8n', now, -20, config);
+        this.playChord(this.boundarySynth, tonic, TONIC_CHORD, '4n', now + this.boundarySynth.toSeconds('8n'), -18, config);
+        break;
+      }
 
-    const duration = this.calculateDuration(velocity);
-    const vol = -16 + (velocity * 10);
+      case 'blockComplete': {
+        if (isLastBlock) return;
 
-    this.synth.triggerAttackRelease(frequency, duration, now, Math.pow(10, vol / 20));
-  }
+        this.playChord(this.swellSynth, tonic - 12, [...TONIC_CHORD, 24], '1n', now, -16, config);
 
-  /**
-   * Modo ambiental - Sonidos largos y atmosféricos
-   */
-  private playAmbientSound(signal: AudioSignal, velocity: number, now: number): void {
-    const scaleIndex = signal.letterIndexInWord % this.pentatonicScale.length;
-    const octave = this.config.baseOctave - 1; // Una octava más baja
+        // La reverb se abre durante el crescendo (la siguiente tecla la devuelve a su nivel)
+        if (config.reverbEnabled) {
+          this.reverb.wet.rampTo(Math.min(1, config.reverbAmount * 2 + 0.2), 1, now);
+        }
+        break;
+      }
 
-    const note = this.pentatonicScale[scaleIndex];
-    const frequency = Tone.Frequency(note + octave * 12, 'midi').toFrequency();
+      case 'textComplete': {
+        // La coda cierra también el drone y la rejilla
+        this.drone.stop(now);
+        this.quantizer.stop(now);
 
-    // Duración mucho más larga para crear atmósfera
-    const duration = '2n';
-    const vol = -20 + (velocity * 8);
+        const step = 0.12;
+        CODA_ARPEGGIO.forEach((interval, i) => {
+          this.playChord(this.boundarySynth, tonic + 12, [interval], '8n', now + i * step, -16, config);
+        });
+        this.playChord(this.swellSynth, tonic - 12, [...TONIC_CHORD, 24], 3, now, -14, config);
 
-    this.synth.triggerAttackRelease(frequency, duration, now, Math.pow(10, vol / 20));
+        if (config.reverbEnabled) {
+          this.reverb.wet.rampTo(Math.min(1, config.reverbAmount * 2 + 0.2), 2, now);
+        }
+        break;
+      }
+    }
   }
 
   /**
-   * Reproduce sonido para error - tonos disonantes pero musicales
+   * Toca un acorde (intervalos en semitonos sobre una nota MIDI, en la afinación de la configuración)
+   * @param volume Volumen en dB
    */
-  private playErrorSound(_signal: AudioSignal, velocity: number): void {
-    const now = Tone.now();
-
-    // Usar un cluster de notas disonantes (segunda menor)
-    const baseNote = 40; // E2
-    const frequencies = [
-      Tone.Frequency(baseNote, 'midi').toFrequency(),
-      Tone.Frequency(baseNote + 1, 'midi').toFrequency(), // Semitono arriba
-      Tone.Frequency(baseNote + 6, 'midi').toFrequency()  // Tritono (diablo en música)
-    ];
-
-    const duration = '16n';
-    const vol = -12 + (velocity * 8);
-
-    frequencies.forEach((freq, i) => {
-      this.synth.triggerAttackRelease(freq, duration, now + (i * 0.02), Math.pow(10, vol / 20));
-    });
+  private playChord(
+    synth: Tone.PolySynth,
+    root: number,
+    intervals: number[],
+    duration: Tone.Unit.Time,
+    now: number,
+    volume: number,
+    config: AudioConfig
+  ): void {
+    const frequencies = intervals.map(interval => Tuning.getMidiFrequency(root + interval, config));
+    synth.triggerAttackRelease(frequencies, duration, now, Math.pow(10, volume / 20));
   }
 
   /**
-   * Calcula la velocidad basada en el tiempo entre teclas
+   * Reproduce un golpe de ruido para espacios, puntuación y saltos de línea
    */
-  private calculateVelocity(timeDelta: number): number {
-    // Mapear tiempo entre teclas (ms) a velocidad (0-1)
-    // Tecleo rápido (< 100ms) = velocidad alta
-    // Tecleo lento (> 500ms) = velocidad baja
-    const minTime = 50;
-    const maxTime = 500;
-
-    const normalized = Math.max(minTime, Math.min(timeDelta, maxTime));
-    const velocity = 1 - ((normalized - minTime) / (maxTime - minTime));
+  private playPunctuationSound(settings: PunctuationSound, velocity: number, now: number): void {
+    this.punctuationFilter.frequency.setValueAtTime(settings.frequency, now);
 
-    return velocity;
+    const vol = -18 + (velocity * 10);
+    this.punctuationSynth.triggerAttackRelease(settings.duration, now, Math.pow(10, vol / 20));
   }
 
   /**
@@ -365,34 +621,22 @@ export class AudioEngine {
     return (pan * 2) - 1;
   }
 
-  /**
-   * Calcula la duración de la nota basada en la velocidad
-   */
-  private calculateDuration(velocity: number): string {
-    // Velocidad alta = notas más cortas
-    // Velocidad baja = notas más largas
-    if (velocity > 0.8) return '16n';
-    if (velocity > 0.6) return '8n';
-    if (velocity > 0.4) return '4n';
-    return '2n';
-  }
-
   /**
    * Actualiza efectos basados en el progreso del bloque
    */
-  private updateEffects(signal: AudioSignal): void {
+  private updateEffects(signal: AudioSignal, config: AudioConfig, time: number): void {
     const blockProgress = signal.blockIndexInText / signal.totalBlocksInText;
 
     // Incrementar reverb según avanza el texto
-    if (this.config.reverbEnabled) {
-      const reverbWet = this.config.reverbAmount * (0.3 + (blockProgress * 0.7));
-      this.reverb.wet.rampTo(reverbWet, 0.5);
+    if (config.reverbEnabled) {
+      const reverbWet = config.reverbAmount * (0.3 + (blockProgress * 0.7));
+      this.reverb.wet.rampTo(reverbWet, 0.5, time);
     }
 
     // Incrementar delay según avanza el texto (solo si está habilitado)
-    if (this.config.delayEnabled) {
-      const delayWet = this.config.delayAmount * blockProgress;
-      this.delay.wet.rampTo(delayWet, 0.5);
+    if (config.delayEnabled) {
+      const delayWet = config.delayAmount * blockProgress;
+      this.delay.wet.rampTo(delayWet, 0.5, time);
     }
   }
 
@@ -400,6 +644,8 @@ export class AudioEngine {
    * Cambia la configuración del motor de audio
    */
   updateConfig(config: Partial<AudioConfig>): void {
+    // Ignorar modos que no estén registrados
+    config = this.withKnownMode(config);
     this.config = { ...this.config, ...config };
 
     // Actualizar volumen
@@ -424,9 +670,25 @@ export class AudioEngine {
       );
     }
 
-    // Cambiar modo de síntesis (instantáneo)
-    if (config.synthesisMode !== undefined) {
-      // El cambio de modo se aplica en el siguiente processSignal
+    // El cambio de modo de síntesis se aplica en el siguiente processSignal
+
+    // Actualizar drone (arranca con la siguiente tecla)
+    if (config.droneEnabled === false) {
+      this.drone.stop(this.context.now());
+    }
+    if (config.droneLevel !== undefined) {
+      this.drone.setLevel(config.droneLevel);
+    }
+
+    // Actualizar tempo (el de la cabecera del texto sigue teniendo prioridad) y cuantización
+    if (config.tempo !== undefined) {
+      this.applyTempo();
+    }
+    if (config.quantize === false) {
+      this.quantizer.stop(this.context.now());
+    }
+    if (config.quantize !== undefined || config.metronome !== undefined) {
+      this.quantizer.setMetronome(this.config.metronome, this.config);
     }
 
     // Actualizar panning
@@ -444,6 +706,19 @@ export class AudioEngine {
     this.masterGain.gain.rampTo(gainValue, 0.1);
   }
 
+  /**
+   * Vuelve al estado inicial al reiniciar el texto: apaga el drone con un
+   * fundido, detiene la rejilla y olvida la dinámica de las últimas teclas
+   * y los errores seguidos
+   */
+  reset(): void {
+    this.lastKeyPressTime = 0;
+    this.lastWordChordTimestamp = null;
+    this.drone.stop(this.context.now());
+    this.quantizer.stop(this.context.now());
+    this.errorVoice.calm();
+  }
+
   /**
    * Obtiene la configuración actual
    */
@@ -455,14 +730,17 @@ export class AudioEngine {
    * Limpia y libera recursos
    */
   dispose(): void {
-    this.oscillator.stop();
-    this.noise.stop();
-    this.oscillator.dispose();
-    this.noise.dispose();
-    this.synth.dispose();
-    this.lowPassFilter.dispose();
-    this.envelope.dispose();
-    this.noiseEnvelope.dispose();
+    this.voices.forEach(voice => voice.dispose());
+    this.voices.clear();
+    this.errorVoice.dispose();
+    this.retreatSynth.dispose();
+    this.boundarySynth.dispose();
+    this.swellSynth.dispose();
+    this.drone.dispose();
+    this.characterTimbre.dispose();
+    this.quantizer.dispose();
+    this.punctuationSynth.dispose();
+    this.punctuationFilter.dispose();
     this.reverb.dispose();
     this.delay.dispose();
     this.panner.dispose();
@@ -1,24 +1,166 @@
-import type { AudioEngine } from './AudioEngine';
-import type { SynthesisMode } from '../types';
+import { VOLUME_RANGE, type AudioEngine } from './AudioEngine';
+import type { OscBridge } from './OscBridge';
+import type { MidiDeviceInfo, MidiOutput } from './MidiOutput';
+import type { PreferencesStore } from './PreferencesStore';
+import type { ViewportManager } from './ViewportManager';
+import type { VisualEffects } from './VisualEffects';
+import { SynthesisModeRegistry } from './SynthesisModeRegistry';
+import { GrainEnvelope } from './GrainEnvelope';
+import { SamplePackLibrary } from './SamplePackLibrary';
+import { EDO_DIVISIONS, Tuning } from './Tuning';
+import { TEMPO_RANGE } from './Quantizer';
+import type {
+  AudioConfig,
+  CharacterPitchMapping,
+  ErrorPolicy,
+  ErrorSound,
+  OscBridgeStatus,
+  QuantizeSubdivision,
+  SamplePackProgress,
+  ScaleName,
+  TuningSystem,
+  TypingOptions,
+  UserPreferences
+} from '../types';
+import { downloadBlob } from '../utils/download';
+
+/**
+ * Opciones del selector de política de errores
+ */
+const ERROR_POLICY_LABELS: { policy: ErrorPolicy; label: string }[] = [
+  { policy: 'stop', label: 'Stop until corrected' },
+  { policy: 'advance', label: 'Advance (Backspace to fix)' },
+  { policy: 'free', label: 'Free (no correction)' }
+];
+
+/**
+ * Opciones del selector de sonido de los errores
+ */
+const ERROR_SOUND_LABELS: { sound: ErrorSound; label: string }[] = [
+  { sound: 'cluster', label: 'Dissonant cluster' },
+  { sound: 'noise', label: 'Noise burst' },
+  { sound: 'detuned', label: 'Detuned expected note' },
+  { sound: 'silence', label: 'Silent' }
+];
+
+/**
+ * Opciones del selector de relación letra -> escala
+ */
+const CHARACTER_PITCH_LABELS: { mapping: CharacterPitchMapping; label: string }[] = [
+  { mapping: 'position', label: 'Position in word' },
+  { mapping: 'letter', label: 'Letter (alphabet to scale)' },
+  { mapping: 'blend', label: 'Letter + position' }
+];
+
+/**
+ * Nombres de las notas del selector de tónica
+ */
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/**
+ * Opciones del selector de escala
+ */
+const SCALE_LABELS: { scale: ScaleName; label: string }[] = [
+  { scale: 'mode', label: 'Mode default' },
+  { scale: 'major', label: 'Major (Ionian)' },
+  { scale: 'minor', label: 'Minor (Aeolian)' },
+  { scale: 'dorian', label: 'Dorian' },
+  { scale: 'phrygian', label: 'Phrygian' },
+  { scale: 'lydian', label: 'Lydian' },
+  { scale: 'mixolydian', label: 'Mixolydian' },
+  { scale: 'locrian', label: 'Locrian' },
+  { scale: 'majorPentatonic', label: 'Major Pentatonic' },
+  { scale: 'minorPentatonic', label: 'Minor Pentatonic' },
+  { scale: 'chromatic', label: 'Chromatic' },
+  { scale: 'custom', label: 'Custom intervals' }
+];
+
+/**
+ * Opciones del selector de sistema de afinación
+ */
+const TUNING_SYSTEM_LABELS: { system: TuningSystem; label: string }[] = [
+  { system: 'equal', label: '12-TET (equal temperament)' },
+  { system: 'just', label: 'Just intonation' },
+  { system: 'edo', label: 'EDO (equal divisions)' },
+  { system: 'scala', label: 'Scala file (.scl/.kbm)' }
+];
+
+/**
+ * Opciones del selector de subdivisión de la rejilla
+ */
+const QUANTIZE_SUBDIVISION_LABELS: { subdivision: QuantizeSubdivision; label: string }[] = [
+  { subdivision: '4n', label: 'Quarter notes' },
+  { subdivision: '8n', label: 'Eighth notes' },
+  { subdivision: '16n', label: 'Sixteenth notes' },
+  { subdivision: '8t', label: 'Eighth-note triplets' }
+];
+
+/**
+ * Dependencias del panel además del motor de audio
+ */
+export interface AudioUIOptions {
+  typingOptions: TypingOptions;
+  onTypingOptionsChange: (options: TypingOptions) => void;
+  oscBridge: OscBridge;
+  midiOutput: MidiOutput;
+  preferences: PreferencesStore;
+  viewport: ViewportManager;
+  visualEffects: VisualEffects;
+}
 
 /**
  * AudioUI
  *
  * Interfaz de usuario para controlar el motor de audio en tiempo real.
  * Proporciona controles para:
- * - Modo de síntesis
+ * - Modo de síntesis (y la envolvente del modo granular, cargable desde un patch de Pd)
+ * - Paquete de muestras del modo Sampler (incluidos o cargados desde una carpeta)
+ * - Sonido de cada letra (grado de la escala, ruido de consonantes, formantes de vocales)
+ * - Afinación (tónica, escala, sistema de afinación y archivos Scala)
  * - Volumen
  * - Efectos (reverb, delay)
  * - Panning espacial
+ * - Drone de fondo (activar, nivel)
+ * - Tempo y cuantización (rejilla, swing, metrónomo)
  * - Activar/desactivar audio
+ * - Opciones de tecleado (diacríticos, modo estricto, política de errores)
+ * - Desplazamiento del texto (posición focal, atenuado, paginación)
+ * - Efectos visuales (activar, intensidad)
+ * - Salida OSC hacia sintetizadores externos
+ * - Salida MIDI (selector de dispositivo)
+ * - Presets con nombre
+ *
+ * Cada cambio se guarda en las preferencias para la siguiente visita.
  */
 export class AudioUI {
   private audioEngine: AudioEngine;
   private container: HTMLElement;
   private isVisible: boolean = false;
+  private typingOptions: TypingOptions;
+  private onTypingOptionsChange: (options: TypingOptions) => void;
+  private oscBridge: OscBridge;
+  private midiOutput: MidiOutput;
+  private preferences: PreferencesStore;
+  private viewport: ViewportManager;
+  private visualEffects: VisualEffects;
+  private presetStatus: string = '';
+  private midiDevices: MidiDeviceInfo[] = []; // Dispositivos del último escaneo
+  private midiDeviceId: string | null = null; // Dispositivo elegido (null: apagado)
+  private midiStatus: string = '';
+  private userAudioConfig: AudioConfig | null = null;   // Configuración del usuario mientras suena una grabación
+  private replayAudioConfig: AudioConfig | null = null; // Configuración de la grabación
+  private unsubscribeSamplePack: (() => void) | null = null;
+  private unsubscribeOsc: (() => void) | null = null;
 
-  constructor(audioEngine: AudioEngine) {
+  constructor(audioEngine: AudioEngine, options: AudioUIOptions) {
     this.audioEngine = audioEngine;
+    this.typingOptions = { ...options.typingOptions };
+    this.onTypingOptionsChange = options.onTypingOptionsChange;
+    this.oscBridge = options.oscBridge;
+    this.midiOutput = options.midiOutput;
+    this.preferences = options.preferences;
+    this.viewport = options.viewport;
+    this.visualEffects = options.visualEffects;
     this.container = this.createContainer();
     document.body.appendChild(this.container);
 
@@ -52,6 +194,17 @@ export class AudioUI {
    */
   private buildHTML(): string {
     const config = this.audioEngine.getConfig();
+    const textSettings = this.audioEngine.getTextSettings();
+    const oscConfig = this.oscBridge.getConfig();
+    const viewportConfig = this.viewport.getConfig();
+    const visualConfig = this.visualEffects.getConfig();
+    const presets = this.preferences.getPresets();
+    const samplePack = SamplePackLibrary.resolve(config.samplePack);
+    const samplePackProgress = samplePack ? SamplePackLibrary.getProgress(samplePack.id) : null;
+
+    // El mensaje de la última acción de presets solo se muestra una vez
+    const presetStatus = this.presetStatus;
+    this.presetStatus = '';
 
     return `
       <div class="audio-controls-header">
@@ -62,14 +215,112 @@ export class AudioUI {
       <div class="audio-controls-content">
         <!-- Modo de síntesis -->
         <div class="control-group">
-          <label>Synthesis Mode</label>
+          <label>
+            Synthesis Mode
+            ${textSettings.synthesisMode ? '<span class="control-value" id="synthesis-mode-source">From text</span>' : ''}
+          </label>
           <select id="synthesis-mode" class="control-select">
-            <option value="granular" ${config.synthesisMode === 'granular' ? 'selected' : ''}>Granular (Original)</option>
-            <option value="pentatonic" ${config.synthesisMode === 'pentatonic' ? 'selected' : ''}>Pentatonic Scale</option>
-            <option value="harmonic" ${config.synthesisMode === 'harmonic' ? 'selected' : ''}>Harmonic Series</option>
-            <option value="microtonal" ${config.synthesisMode === 'microtonal' ? 'selected' : ''}>Microtonal</option>
-            <option value="ambient" ${config.synthesisMode === 'ambient' ? 'selected' : ''}>Ambient</option>
+            ${SynthesisModeRegistry.getAll().map(mode => `
+              <option value="${mode.id}" ${(textSettings.synthesisMode ?? config.synthesisMode) === mode.id ? 'selected' : ''}>${mode.label}</option>
+            `).join('')}
+          </select>
+          <label>
+            Grain Envelope
+            <span class="control-value" id="grain-envelope-name">${this.escape(GrainEnvelope.getName())}</span>
+          </label>
+          <div class="control-buttons">
+            <label class="control-button">
+              Load .pd
+              <input type="file" id="grain-envelope-import" accept=".pd" hidden />
+            </label>
+            <button id="grain-envelope-reset" class="control-button">Reset</button>
+          </div>
+          <p class="control-status" id="grain-envelope-status"></p>
+          <label for="sample-pack">Sample Pack</label>
+          <select id="sample-pack" class="control-select">
+            ${SamplePackLibrary.getAll().map(pack => `
+              <option value="${this.escape(pack.id)}" ${samplePack?.id === pack.id ? 'selected' : ''}>${this.escape(pack.name)}${pack.isLocal ? ' (local)' : ''}</option>
+            `).join('')}
+          </select>
+          <div class="control-buttons">
+            <label class="control-button">
+              Load Folder
+              <input type="file" id="sample-pack-import" webkitdirectory multiple hidden />
+            </label>
+          </div>
+          <p class="control-status" id="sample-pack-status">${this.escape(this.describeSamplePackProgress(samplePackProgress))}</p>
+        </div>
+
+        <!-- Sonido de cada letra -->
+        <div class="control-group">
+          <label for="character-pitch">Letter Pitch</label>
+          <select id="character-pitch" class="control-select">
+            ${CHARACTER_PITCH_LABELS.map(({ mapping, label }) => `
+              <option value="${mapping}" ${config.characterPitch === mapping ? 'selected' : ''}>${label}</option>
+            `).join('')}
           </select>
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="character-timbre"
+              ${config.characterTimbre ? 'checked' : ''}
+            />
+            <span>Consonant Noise</span>
+          </label>
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="vowel-formants"
+              ${config.vowelFormants ? 'checked' : ''}
+            />
+            <span>Vowel Formants</span>
+          </label>
+        </div>
+
+        <!-- Afinación -->
+        <div class="control-group">
+          <label for="tuning-root">Root Note</label>
+          <select id="tuning-root" class="control-select">
+            ${NOTE_NAMES.map((name, i) => `
+              <option value="${i}" ${config.tuningRoot === i ? 'selected' : ''}>${name}</option>
+            `).join('')}
+          </select>
+          <label for="tuning-scale">Scale</label>
+          <select id="tuning-scale" class="control-select">
+            ${SCALE_LABELS.map(({ scale, label }) => `
+              <option value="${scale}" ${config.scale === scale ? 'selected' : ''}>${label}</option>
+            `).join('')}
+          </select>
+          <label for="custom-scale">Custom Intervals (semitones)</label>
+          <input type="text" id="custom-scale" class="control-input" value="${this.escape(config.customScale)}" placeholder="0 2 3 5 7 8 10" />
+          <label for="tuning-system">Tuning System</label>
+          <select id="tuning-system" class="control-select">
+            ${TUNING_SYSTEM_LABELS.map(({ system, label }) => `
+              <option value="${system}" ${config.tuningSystem === system ? 'selected' : ''}>${label}</option>
+            `).join('')}
+          </select>
+          <label for="edo-divisions">EDO Divisions</label>
+          <input
+            type="number"
+            id="edo-divisions"
+            class="control-input"
+            min="${EDO_DIVISIONS.min}"
+            max="${EDO_DIVISIONS.max}"
+            step="1"
+            value="${config.edoDivisions}"
+          />
+          <label>
+            Scala
+            <span class="control-value" id="scala-name">${this.escape(Tuning.getScalaName() ?? 'None')}</span>
+          </label>
+          <div class="control-buttons">
+            <label class="control-button">
+              Load .scl/.kbm
+              <input type="file" id="scala-import" accept=".scl,.kbm" multiple hidden />
+            </label>
+            <button id="scala-reset" class="control-button">Reset</button>
+          </div>
+          <p class="control-status" id="scala-status"></p>
         </div>
 
         <!-- Volumen -->
@@ -82,8 +333,8 @@ export class AudioUI {
             type="range"
             id="volume-slider"
             class="control-slider"
-            min="-30"
-            max="0"
+            min="${VOLUME_RANGE.min}"
+            max="${VOLUME_RANGE.max}"
             step="1"
             value="${config.volume}"
           />
@@ -162,6 +413,239 @@ export class AudioUI {
             <span>Spatial Panning</span>
           </label>
         </div>
+
+        <!-- Drone -->
+        <div class="control-group">
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="drone-enabled"
+              ${config.droneEnabled ? 'checked' : ''}
+            />
+            <span>Drone</span>
+          </label>
+          <label>
+            Level
+            <span class="control-value" id="drone-value">${Math.round(config.droneLevel * 100)}%</span>
+          </label>
+          <input
+            type="range"
+            id="drone-slider"
+            class="control-slider"
+            min="0"
+            max="1"
+            step="0.01"
+            value="${config.droneLevel}"
+          />
+        </div>
+
+        <!-- Tempo y cuantización -->
+        <div class="control-group">
+          <label>
+            Tempo
+            <span class="control-value" id="tempo-value">${textSettings.tempo ?? config.tempo} BPM${textSettings.tempo ? ' (from text)' : ''}</span>
+          </label>
+          <input
+            type="range"
+            id="tempo-slider"
+            class="control-slider"
+            min="${TEMPO_RANGE.min}"
+            max="${TEMPO_RANGE.max}"
+            step="1"
+            value="${textSettings.tempo ?? config.tempo}"
+          />
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="quantize-enabled"
+              ${config.quantize ? 'checked' : ''}
+            />
+            <span>Quantize to Grid</span>
+          </label>
+          <select id="quantize-subdivision" class="control-select">
+            ${QUANTIZE_SUBDIVISION_LABELS.map(({ subdivision, label }) => `
+              <option value="${subdivision}" ${config.quantizeSubdivision === subdivision ? 'selected' : ''}>${label}</option>
+            `).join('')}
+          </select>
+          <label>
+            Swing
+            <span class="control-value" id="swing-value">${Math.round(config.quantizeSwing * 100)}%</span>
+          </label>
+          <input
+            type="range"
+            id="swing-slider"
+            class="control-slider"
+            min="0"
+            max="1"
+            step="0.01"
+            value="${config.quantizeSwing}"
+          />
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="metronome-enabled"
+              ${config.metronome ? 'checked' : ''}
+            />
+            <span>Metronome</span>
+          </label>
+        </div>
+
+        <!-- Sonido de los errores -->
+        <div class="control-group">
+          <label for="error-sound">Error Sound</label>
+          <select id="error-sound" class="control-select">
+            ${ERROR_SOUND_LABELS.map(({ sound, label }) => `
+              <option value="${sound}" ${config.errorSound === sound ? 'selected' : ''}>${label}</option>
+            `).join('')}
+          </select>
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="error-escalation"
+              ${config.errorEscalation ? 'checked' : ''}
+            />
+            <span>Escalate Repeated Errors</span>
+          </label>
+        </div>
+
+        <!-- Tecleado -->
+        <div class="control-group">
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="ignore-diacritics"
+              ${this.typingOptions.ignoreDiacritics ? 'checked' : ''}
+            />
+            <span>Ignore Accents (e = é)</span>
+          </label>
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="strict-mode"
+              ${this.typingOptions.strict ? 'checked' : ''}
+            />
+            <span>Strict Mode (spaces, punctuation, Enter)</span>
+          </label>
+          <label for="error-policy">On Error</label>
+          <select id="error-policy" class="control-select">
+            ${ERROR_POLICY_LABELS.map(({ policy, label }) => `
+              <option value="${policy}" ${this.typingOptions.errorPolicy === policy ? 'selected' : ''}>${label}</option>
+            `).join('')}
+          </select>
+        </div>
+
+        <!-- Desplazamiento del texto -->
+        <div class="control-group">
+          <label>
+            Focus Line Height
+            <span class="control-value" id="focal-position-value">${Math.round(viewportConfig.focalPosition * 100)}%</span>
+          </label>
+          <input
+            type="range"
+            id="focal-position-slider"
+            class="control-slider"
+            min="10"
+            max="90"
+            step="5"
+            value="${Math.round(viewportConfig.focalPosition * 100)}"
+          />
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="fade-older-blocks"
+              ${viewportConfig.fadeOlderBlocks ? 'checked' : ''}
+            />
+            <span>Fade Older Blocks</span>
+          </label>
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="paginate-blocks"
+              ${viewportConfig.paginate ? 'checked' : ''}
+            />
+            <span>One Block per Page</span>
+          </label>
+        </div>
+
+        <!-- Efectos visuales -->
+        <div class="control-group">
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="visual-effects-enabled"
+              ${visualConfig.enabled ? 'checked' : ''}
+            />
+            <span>Visual Effects</span>
+          </label>
+          <label>
+            Effects Intensity
+            <span class="control-value" id="visual-intensity-value">${Math.round(visualConfig.intensity * 100)}%</span>
+          </label>
+          <input
+            type="range"
+            id="visual-intensity-slider"
+            class="control-slider"
+            min="0"
+            max="100"
+            step="5"
+            value="${Math.round(visualConfig.intensity * 100)}"
+          />
+        </div>
+
+        <!-- Salida OSC -->
+        <div class="control-group">
+          <label class="control-checkbox">
+            <input
+              type="checkbox"
+              id="osc-enabled"
+              ${oscConfig.enabled ? 'checked' : ''}
+            />
+            <span>OSC Output</span>
+          </label>
+          <label>Relay URL</label>
+          <input type="text" id="osc-url" class="control-input" value="${this.escape(oscConfig.url)}" />
+          <label>Correct Address</label>
+          <input type="text" id="osc-correct-address" class="control-input" value="${this.escape(oscConfig.correctAddress)}" />
+          <label>Error Address</label>
+          <input type="text" id="osc-error-address" class="control-input" value="${this.escape(oscConfig.errorAddress)}" />
+          <label>Backspace Address</label>
+          <input type="text" id="osc-retreat-address" class="control-input" value="${this.escape(oscConfig.retreatAddress)}" />
+          <p class="control-status" id="osc-status">${this.escape(this.describeOscStatus(this.oscBridge.getStatus()))}</p>
+        </div>
+
+        <!-- Salida MIDI -->
+        <div class="control-group">
+          <label for="midi-device">MIDI Output</label>
+          <select id="midi-device" class="control-select">
+            ${this.buildMidiOptions()}
+          </select>
+          <button id="midi-scan-btn" class="control-button">Scan MIDI Devices</button>
+          <p class="control-status" id="midi-status">${this.escape(this.midiStatus)}</p>
+        </div>
+
+        <!-- Presets -->
+        <div class="control-group">
+          <label for="preset-select">Presets</label>
+          <select id="preset-select" class="control-select">
+            <option value="">${presets.length > 0 ? 'Choose a preset…' : 'No saved presets'}</option>
+            ${presets.map(preset => `
+              <option value="${this.escape(preset.name)}">${this.escape(preset.name)}</option>
+            `).join('')}
+          </select>
+          <input type="text" id="preset-name" class="control-input" placeholder="Preset name" />
+          <div class="control-buttons">
+            <button id="preset-save-btn" class="control-button">Save</button>
+            <button id="preset-load-btn" class="control-button">Load</button>
+            <button id="preset-rename-btn" class="control-button">Rename</button>
+            <button id="preset-delete-btn" class="control-button">Delete</button>
+            <button id="preset-export-btn" class="control-button">Export</button>
+            <label class="control-button">
+              Import
+              <input type="file" id="preset-import" accept="application/json,.json" hidden />
+            </label>
+          </div>
+          <p class="control-status" id="preset-status">${this.escape(presetStatus)}</p>
+        </div>
       </div>
 
       <div class="audio-controls-footer">
@@ -183,6 +667,9 @@ export class AudioUI {
       e.stopPropagation();
     });
 
+    // Guardar las preferencias tras cualquier cambio (los listeners de cada control van antes)
+    this.container.addEventListener('change', () => this.savePreferences());
+
     // Close button
     const closeBtn = document.getElementById('audio-close-btn');
     closeBtn?.addEventListener('click', () => this.hide());
@@ -191,9 +678,159 @@ export class AudioUI {
     const modeSelect = document.getElementById('synthesis-mode') as HTMLSelectElement;
     modeSelect?.addEventListener('change', (e) => {
       const target = e.target as HTMLSelectElement;
+      // La elección del usuario sustituye al modo de la cabecera del texto
+      this.audioEngine.releaseTextSetting('synthesisMode');
+      document.getElementById('synthesis-mode-source')?.remove();
       this.audioEngine.updateConfig({
-        synthesisMode: target.value as SynthesisMode
+        synthesisMode: target.value
       });
+      this.prepareAudio();
+    });
+
+    // Envolvente de los granos
+    const grainEnvelopeName = document.getElementById('grain-envelope-name');
+    const grainEnvelopeStatus = document.getElementById('grain-envelope-status');
+    const grainEnvelopeImport = document.getElementById('grain-envelope-import') as HTMLInputElement;
+    grainEnvelopeImport?.addEventListener('change', async () => {
+      const file = grainEnvelopeImport.files?.[0];
+      grainEnvelopeImport.value = '';
+      if (!file) return;
+
+      try {
+        GrainEnvelope.load(await file.text());
+        if (grainEnvelopeStatus) grainEnvelopeStatus.textContent = `Loaded from ${file.name}`;
+      } catch (error) {
+        if (grainEnvelopeStatus) grainEnvelopeStatus.textContent = error instanceof Error ? error.message : String(error);
+      }
+      if (grainEnvelopeName) grainEnvelopeName.textContent = GrainEnvelope.getName();
+    });
+
+    document.getElementById('grain-envelope-reset')?.addEventListener('click', () => {
+      GrainEnvelope.reset();
+      if (grainEnvelopeName) grainEnvelopeName.textContent = GrainEnvelope.getName();
+      if (grainEnvelopeStatus) grainEnvelopeStatus.textContent = '';
+    });
+
+    // Paquete de muestras
+    const samplePackSelect = document.getElementById('sample-pack') as HTMLSelectElement;
+    const samplePackStatus = document.getElementById('sample-pack-status');
+    samplePackSelect?.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+      this.audioEngine.updateConfig({ samplePack: target.value });
+      if (samplePackStatus) {
+        samplePackStatus.textContent = this.describeSamplePackProgress(SamplePackLibrary.getProgress(target.value));
+      }
+      this.prepareAudio();
+    });
+
+    const samplePackImport = document.getElementById('sample-pack-import') as HTMLInputElement;
+    samplePackImport?.addEventListener('change', async () => {
+      const files = Array.from(samplePackImport.files ?? []);
+      samplePackImport.value = '';
+      if (files.length === 0) return;
+
+      try {
+        const pack = await SamplePackLibrary.loadFromFiles(files);
+        this.audioEngine.updateConfig({ samplePack: pack.id });
+        this.savePreferences();
+        this.refresh();
+        this.prepareAudio();
+      } catch (error) {
+        if (samplePackStatus) samplePackStatus.textContent = error instanceof Error ? error.message : String(error);
+      }
+    });
+
+    // El progreso de la decodificación llega mientras el panel está abierto (y tras cada refresh)
+    this.unsubscribeSamplePack?.();
+    this.unsubscribeSamplePack = SamplePackLibrary.events.on('progress', (progress) => {
+      const selected = SamplePackLibrary.resolve(this.audioEngine.getConfig().samplePack);
+      const status = document.getElementById('sample-pack-status');
+      if (status && selected?.id === progress.id) {
+        status.textContent = this.describeSamplePackProgress(progress);
+      }
+    });
+
+    // Sonido de cada letra
+    const characterPitch = document.getElementById('character-pitch') as HTMLSelectElement;
+    characterPitch?.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+      this.audioEngine.updateConfig({ characterPitch: target.value as CharacterPitchMapping });
+    });
+
+    const characterTimbre = document.getElementById('character-timbre') as HTMLInputElement;
+    characterTimbre?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.audioEngine.updateConfig({ characterTimbre: target.checked });
+    });
+
+    const vowelFormants = document.getElementById('vowel-formants') as HTMLInputElement;
+    vowelFormants?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.audioEngine.updateConfig({ vowelFormants: target.checked });
+    });
+
+    // Afinación
+    const tuningRoot = document.getElementById('tuning-root') as HTMLSelectElement;
+    tuningRoot?.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+      this.audioEngine.updateConfig({ tuningRoot: parseInt(target.value, 10) });
+    });
+
+    const tuningScale = document.getElementById('tuning-scale') as HTMLSelectElement;
+    tuningScale?.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+      this.audioEngine.updateConfig({ scale: target.value as ScaleName });
+    });
+
+    const customScale = document.getElementById('custom-scale') as HTMLInputElement;
+    customScale?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.audioEngine.updateConfig({ customScale: target.value });
+    });
+
+    const tuningSystem = document.getElementById('tuning-system') as HTMLSelectElement;
+    tuningSystem?.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+      this.audioEngine.updateConfig({ tuningSystem: target.value as TuningSystem });
+    });
+
+    const edoDivisions = document.getElementById('edo-divisions') as HTMLInputElement;
+    edoDivisions?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      const divisions = Math.min(Math.max(Math.round(Number(target.value)) || EDO_DIVISIONS.min, EDO_DIVISIONS.min), EDO_DIVISIONS.max);
+      target.value = divisions.toString();
+      this.audioEngine.updateConfig({ edoDivisions: divisions });
+    });
+
+    // Archivos Scala: la escala (.scl) y su mapa de teclado (.kbm) opcional
+    const scalaName = document.getElementById('scala-name');
+    const scalaStatus = document.getElementById('scala-status');
+    const scalaImport = document.getElementById('scala-import') as HTMLInputElement;
+    scalaImport?.addEventListener('change', async () => {
+      const files = Array.from(scalaImport.files ?? []);
+      scalaImport.value = '';
+      if (files.length === 0) return;
+
+      try {
+        for (const file of files) {
+          if (file.name.toLowerCase().endsWith('.kbm')) {
+            Tuning.loadKeyboardMapping(await file.text(), file.name);
+          } else {
+            Tuning.loadScala(await file.text(), file.name);
+          }
+        }
+        const inUse = this.audioEngine.getConfig().tuningSystem === 'scala';
+        if (scalaStatus) scalaStatus.textContent = inUse ? '' : 'Select the Scala tuning system to use it';
+      } catch (error) {
+        if (scalaStatus) scalaStatus.textContent = error instanceof Error ? error.message : String(error);
+      }
+      if (scalaName) scalaName.textContent = Tuning.getScalaName() ?? 'None';
+    });
+
+    document.getElementById('scala-reset')?.addEventListener('click', () => {
+      Tuning.reset();
+      if (scalaName) scalaName.textContent = 'None';
+      if (scalaStatus) scalaStatus.textContent = '';
     });
 
     // Volume
@@ -251,6 +888,407 @@ export class AudioUI {
       const target = e.target as HTMLInputElement;
       this.audioEngine.updateConfig({ panningEnabled: target.checked });
     });
+
+    // Drone
+    const droneEnabled = document.getElementById('drone-enabled') as HTMLInputElement;
+    droneEnabled?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.audioEngine.updateConfig({ droneEnabled: target.checked });
+    });
+
+    const droneSlider = document.getElementById('drone-slider') as HTMLInputElement;
+    const droneValue = document.getElementById('drone-value');
+    droneSlider?.addEventListener('input', (e) => {
+      const target = e.target as HTMLInputElement;
+      const value = parseFloat(target.value);
+      if (droneValue) droneValue.textContent = `${Math.round(value * 100)}%`;
+      this.audioEngine.updateConfig({ droneLevel: value });
+    });
+
+    // Tempo y cuantización
+    const tempoSlider = document.getElementById('tempo-slider') as HTMLInputElement;
+    const tempoValue = document.getElementById('tempo-value');
+    tempoSlider?.addEventListener('input', (e) => {
+      const target = e.target as HTMLInputElement;
+      const value = parseInt(target.value, 10);
+      if (tempoValue) tempoValue.textContent = `${value} BPM`;
+      // Mover el control sustituye al tempo de la cabecera del texto
+      this.audioEngine.releaseTextSetting('tempo');
+      this.audioEngine.updateConfig({ tempo: value });
+    });
+
+    const quantizeEnabled = document.getElementById('quantize-enabled') as HTMLInputElement;
+    quantizeEnabled?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.audioEngine.updateConfig({ quantize: target.checked });
+    });
+
+    const quantizeSubdivision = document.getElementById('quantize-subdivision') as HTMLSelectElement;
+    quantizeSubdivision?.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+      this.audioEngine.updateConfig({ quantizeSubdivision: target.value as QuantizeSubdivision });
+    });
+
+    const swingSlider = document.getElementById('swing-slider') as HTMLInputElement;
+    const swingValue = document.getElementById('swing-value');
+    swingSlider?.addEventListener('input', (e) => {
+      const target = e.target as HTMLInputElement;
+      const value = parseFloat(target.value);
+      if (swingValue) swingValue.textContent = `${Math.round(value * 100)}%`;
+      this.audioEngine.updateConfig({ quantizeSwing: value });
+    });
+
+    const metronomeEnabled = document.getElementById('metronome-enabled') as HTMLInputElement;
+    metronomeEnabled?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.audioEngine.updateConfig({ metronome: target.checked });
+    });
+
+    // Sonido de los errores
+    const errorSound = document.getElementById('error-sound') as HTMLSelectElement;
+    errorSound?.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+      this.audioEngine.updateConfig({ errorSound: target.value as ErrorSound });
+    });
+
+    const errorEscalation = document.getElementById('error-escalation') as HTMLInputElement;
+    errorEscalation?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.audioEngine.updateConfig({ errorEscalation: target.checked });
+    });
+
+    // Ignorar diacríticos
+    const ignoreDiacritics = document.getElementById('ignore-diacritics') as HTMLInputElement;
+    ignoreDiacritics?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.typingOptions.ignoreDiacritics = target.checked;
+      this.onTypingOptionsChange({ ...this.typingOptions });
+    });
+
+    // Modo estricto
+    const strictMode = document.getElementById('strict-mode') as HTMLInputElement;
+    strictMode?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.typingOptions.strict = target.checked;
+      this.onTypingOptionsChange({ ...this.typingOptions });
+    });
+
+    // Política de errores
+    const errorPolicy = document.getElementById('error-policy') as HTMLSelectElement;
+    errorPolicy?.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+      this.typingOptions.errorPolicy = target.value as ErrorPolicy;
+      this.onTypingOptionsChange({ ...this.typingOptions });
+    });
+
+    // Desplazamiento del texto
+    const focalSlider = document.getElementById('focal-position-slider') as HTMLInputElement;
+    const focalValue = document.getElementById('focal-position-value');
+    focalSlider?.addEventListener('input', (e) => {
+      const target = e.target as HTMLInputElement;
+      const value = parseFloat(target.value);
+      if (focalValue) focalValue.textContent = `${value}%`;
+      this.viewport.updateConfig({ focalPosition: value / 100 });
+    });
+
+    const fadeOlderBlocks = document.getElementById('fade-older-blocks') as HTMLInputElement;
+    fadeOlderBlocks?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.viewport.updateConfig({ fadeOlderBlocks: target.checked });
+    });
+
+    const paginateBlocks = document.getElementById('paginate-blocks') as HTMLInputElement;
+    paginateBlocks?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.viewport.updateConfig({ paginate: target.checked });
+    });
+
+    // Efectos visuales
+    const visualEnabled = document.getElementById('visual-effects-enabled') as HTMLInputElement;
+    visualEnabled?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.visualEffects.updateConfig({ enabled: target.checked });
+    });
+
+    const visualIntensity = document.getElementById('visual-intensity-slider') as HTMLInputElement;
+    const visualIntensityValue = document.getElementById('visual-intensity-value');
+    visualIntensity?.addEventListener('input', (e) => {
+      const target = e.target as HTMLInputElement;
+      const value = parseFloat(target.value);
+      if (visualIntensityValue) visualIntensityValue.textContent = `${value}%`;
+      this.visualEffects.updateConfig({ intensity: value / 100 });
+    });
+
+    // Salida OSC
+    const oscEnabled = document.getElementById('osc-enabled') as HTMLInputElement;
+    oscEnabled?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.oscBridge.updateConfig({ enabled: target.checked });
+    });
+
+    const oscUrl = document.getElementById('osc-url') as HTMLInputElement;
+    oscUrl?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.oscBridge.updateConfig({ url: target.value.trim() });
+    });
+
+    const oscCorrectAddress = document.getElementById('osc-correct-address') as HTMLInputElement;
+    oscCorrectAddress?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.oscBridge.updateConfig({ correctAddress: target.value.trim() });
+    });
+
+    const oscErrorAddress = document.getElementById('osc-error-address') as HTMLInputElement;
+    oscErrorAddress?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.oscBridge.updateConfig({ errorAddress: target.value.trim() });
+    });
+
+    const oscRetreatAddress = document.getElementById('osc-retreat-address') as HTMLInputElement;
+    oscRetreatAddress?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      this.oscBridge.updateConfig({ retreatAddress: target.value.trim() });
+    });
+
+    // El estado de la conexión con el relay llega mientras el panel está abierto (y tras cada refresh)
+    this.unsubscribeOsc?.();
+    this.unsubscribeOsc = this.oscBridge.events.on('status', (status) => {
+      const oscStatus = document.getElementById('osc-status');
+      if (oscStatus) oscStatus.textContent = this.describeOscStatus(status);
+    });
+
+    // Salida MIDI
+    const midiScanBtn = document.getElementById('midi-scan-btn');
+    midiScanBtn?.addEventListener('click', () => this.scanMidiDevices());
+
+    const midiDevice = document.getElementById('midi-device') as HTMLSelectElement;
+    midiDevice?.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+      this.midiDeviceId = target.value || null;
+      this.midiOutput.selectDevice(this.midiDeviceId);
+    });
+
+    // Presets
+    const presetSelect = document.getElementById('preset-select') as HTMLSelectElement;
+    const presetName = document.getElementById('preset-name') as HTMLInputElement;
+    presetSelect?.addEventListener('change', () => {
+      if (presetName) presetName.value = presetSelect.value;
+    });
+
+    document.getElementById('preset-save-btn')?.addEventListener('click', () => {
+      this.runPresetAction(() => {
+        this.preferences.savePreset(presetName.value, this.getPreferences());
+        return `Saved "${presetName.value.trim()}"`;
+      });
+    });
+
+    document.getElementById('preset-load-btn')?.addEventListener('click', () => {
+      this.runPresetAction(() => {
+        const preset = this.preferences.getPreset(presetSelect.value);
+        if (!preset) throw new Error('Choose a preset to load');
+
+        this.applyPreferences(preset);
+        return `Loaded "${preset.name}"`;
+      });
+    });
+
+    document.getElementById('preset-rename-btn')?.addEventListener('click', () => {
+      this.runPresetAction(() => {
+        if (!presetSelect.value) throw new Error('Choose a preset to rename');
+
+        this.preferences.renamePreset(presetSelect.value, presetName.value);
+        return `Renamed to "${presetName.value.trim()}"`;
+      });
+    });
+
+    document.getElementById('preset-delete-btn')?.addEventListener('click', () => {
+      this.runPresetAction(() => {
+        if (!presetSelect.value) throw new Error('Choose a preset to delete');
+
+        this.preferences.deletePreset(presetSelect.value);
+        return `Deleted "${presetSelect.value}"`;
+      });
+    });
+
+    document.getElementById('preset-export-btn')?.addEventListener('click', () => {
+      const blob = new Blob([this.preferences.exportPresets()], { type: 'application/json' });
+      downloadBlob(blob, 'keyboard-tale-presets.json');
+    });
+
+    const presetImport = document.getElementById('preset-import') as HTMLInputElement;
+    presetImport?.addEventListener('change', async () => {
+      const file = presetImport.files?.[0];
+      presetImport.value = '';
+      if (!file) return;
+
+      const json = await file.text();
+      this.runPresetAction(() => {
+        const count = this.preferences.importPresets(json);
+        return `Imported ${count} preset${count === 1 ? '' : 's'}`;
+      });
+    });
+  }
+
+  /**
+   * Ejecuta una acción de presets y muestra su resultado o su error
+   */
+  private runPresetAction(action: () => string): void {
+    try {
+      this.presetStatus = action();
+    } catch (error) {
+      this.presetStatus = error instanceof Error ? error.message : String(error);
+    }
+    this.refresh();
+  }
+
+  /**
+   * Preferencias actuales (audio, tecleado, desplazamiento y efectos visuales)
+   */
+  private getPreferences(): UserPreferences {
+    return {
+      audioConfig: this.getUserAudioConfig(),
+      typingOptions: { ...this.typingOptions },
+      viewport: this.viewport.getConfig(),
+      visualEffects: this.visualEffects.getConfig()
+    };
+  }
+
+  /**
+   * Configuración de audio del usuario. Mientras suena una grabación, la del
+   * motor es la de la grabación: solo cuentan los valores cambiados en el panel.
+   */
+  private getUserAudioConfig(): AudioConfig {
+    const config = this.audioEngine.getConfig();
+    const replayConfig = this.replayAudioConfig;
+    if (!this.userAudioConfig || !replayConfig) return config;
+
+    const changed = (Object.keys(config) as (keyof AudioConfig)[])
+      .filter(key => config[key] !== replayConfig[key]);
+    return { ...this.userAudioConfig, ...Object.fromEntries(changed.map(key => [key, config[key]])) };
+  }
+
+  /**
+   * Suena con la configuración de una grabación (la del usuario vuelve con endReplay)
+   */
+  startReplay(recordingConfig: AudioConfig): void {
+    this.userAudioConfig = this.getUserAudioConfig();
+    this.audioEngine.updateConfig(recordingConfig);
+    this.replayAudioConfig = this.audioEngine.getConfig();
+    this.refresh();
+  }
+
+  /**
+   * Devuelve al motor la configuración del usuario, con los cambios hechos
+   * en el panel durante la reproducción
+   */
+  endReplay(): void {
+    if (!this.userAudioConfig) return;
+
+    const config = this.getUserAudioConfig();
+    this.userAudioConfig = null;
+    this.replayAudioConfig = null;
+    this.audioEngine.updateConfig(config);
+    this.refresh();
+  }
+
+  /**
+   * Guarda las preferencias actuales para la siguiente visita
+   */
+  private savePreferences(): void {
+    this.preferences.save(this.getPreferences());
+  }
+
+  /**
+   * Aplica unas preferencias (p. ej. un preset) al motor, al tecleado, al desplazamiento y a los efectos
+   */
+  private applyPreferences(preferences: UserPreferences): void {
+    this.audioEngine.updateConfig(preferences.audioConfig);
+    this.viewport.updateConfig(preferences.viewport);
+    this.visualEffects.updateConfig(preferences.visualEffects);
+    this.typingOptions = { ...preferences.typingOptions };
+    this.onTypingOptionsChange({ ...this.typingOptions });
+    this.savePreferences();
+  }
+
+  /**
+   * Prepara los modos de la configuración actual sin esperar (p. ej. decodifica
+   * el paquete de muestras; el progreso se muestra bajo el selector)
+   */
+  private prepareAudio(): void {
+    this.audioEngine.prepare().catch(error => console.warn('Could not prepare audio', error));
+  }
+
+  /**
+   * Texto del estado de un paquete de muestras
+   */
+  private describeSamplePackProgress(progress: SamplePackProgress | null): string {
+    if (!progress) return '';
+    if (progress.error) return progress.error;
+    if (progress.loaded < progress.total) return `Decoding samples ${progress.loaded}/${progress.total}…`;
+    return `${progress.total} samples ready`;
+  }
+
+  /**
+   * Texto del estado de la conexión OSC
+   */
+  private describeOscStatus(status: OscBridgeStatus): string {
+    switch (status) {
+      case 'off':
+        return '';
+      case 'connecting':
+        return `Connecting to ${this.oscBridge.getConfig().url}…`;
+      case 'connected':
+        return `Connected to ${this.oscBridge.getConfig().url}`;
+      case 'reconnecting':
+        return 'Relay not reachable, retrying…';
+      case 'invalidUrl':
+        return 'Invalid relay URL';
+    }
+  }
+
+  /**
+   * Escapa texto para insertarlo en el HTML
+   */
+  private escape(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML.replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Opciones del selector MIDI: apagado y los dispositivos del último escaneo
+   */
+  private buildMidiOptions(): string {
+    return `
+      <option value="">Off</option>
+      ${this.midiDevices.map(device => `
+        <option value="${this.escape(device.id)}" ${device.id === this.midiDeviceId ? 'selected' : ''}>${this.escape(device.name)}</option>
+      `).join('')}
+    `;
+  }
+
+  /**
+   * Busca dispositivos MIDI y rellena el selector. El dispositivo elegido se
+   * mantiene si sigue conectado.
+   */
+  private async scanMidiDevices(): Promise<void> {
+    try {
+      this.midiDevices = await this.midiOutput.scanDevices();
+
+      if (!this.midiDevices.some(device => device.id === this.midiDeviceId)) {
+        this.midiDeviceId = null;
+      }
+      this.midiOutput.selectDevice(this.midiDeviceId);
+      this.midiStatus = this.midiDevices.length > 0 ? '' : 'No MIDI outputs found';
+    } catch (error) {
+      console.warn('MIDI scan failed', error);
+      this.midiStatus = error instanceof Error ? error.message : 'MIDI access denied';
+    }
+
+    const select = document.getElementById('midi-device');
+    const status = document.getElementById('midi-status');
+    if (select) select.innerHTML = this.buildMidiOptions();
+    if (status) status.textContent = this.midiStatus;
   }
 
   /**
@@ -303,6 +1341,7 @@ export class AudioUI {
   refresh(): void {
     // Re-crear el contenedor con los valores actualizados
     const newContainer = this.createContainer();
+    newContainer.classList.toggle('hidden', !this.isVisible);
     this.container.replaceWith(newContainer);
     this.container = newContainer;
   }
@@ -0,0 +1,109 @@
+import * as Tone from 'tone';
+import type { AudioConfig, AudioSignal } from '../types';
+import { VOWEL_FORMANTS, getConsonantNoiseFrequency, getVowel } from '../utils/characterMapping';
+
+/**
+ * Contexto del motor y nodo al que se conecta la salida
+ */
+export interface CharacterTimbreOptions {
+  context: Tone.BaseContext;
+  output: Tone.InputNode;
+}
+
+/**
+ * Ganancia de cada formante (el primero domina)
+ */
+const FORMANT_GAINS = [1, 0.6, 0.3];
+
+/**
+ * Parte de la señal sin filtrar que se conserva en las vocales
+ */
+const VOWEL_DRY_GAIN = 0.3;
+
+/**
+ * CharacterTimbre
+ *
+ * Etapa entre los modos de síntesis y los efectos que da a cada letra un
+ * timbre propio, sea cual sea el modo:
+ * - Consonantes: un golpe de ruido corto centrado según su familia
+ *   (sibilantes agudas, fricativas, oclusivas, nasales y líquidas graves)
+ * - Vocales: tres filtros paso banda en paralelo con los formantes de la vocal
+ */
+export class CharacterTimbre {
+  readonly input: Tone.Gain;
+  private dry: Tone.Gain;
+  private formantBus: Tone.Gain;
+  private formants: Tone.Filter[];
+  private formantLevels: Tone.Gain[];
+  private consonantSynth: Tone.NoiseSynth;
+  private consonantFilter: Tone.Filter;
+
+  constructor({ context, output }: CharacterTimbreOptions) {
+    this.input = new Tone.Gain({ context, gain: 1 });
+
+    // Directo: Entrada -> Salida
+    this.dry = new Tone.Gain({ context, gain: 1 });
+    this.input.connect(this.dry);
+    this.dry.connect(output);
+
+    // Formantes: Entrada -> Filtros en paralelo -> Salida
+    this.formantBus = new Tone.Gain({ context, gain: 0 });
+    this.formants = VOWEL_FORMANTS.a.map(frequency => new Tone.Filter({ context, type: 'bandpass', frequency, Q: 6 }));
+    this.formantLevels = FORMANT_GAINS.map(gain => new Tone.Gain({ context, gain }));
+    this.formants.forEach((filter, i) => {
+      this.input.connect(filter);
+      filter.connect(this.formantLevels[i]);
+      this.formantLevels[i].connect(this.formantBus);
+    });
+    this.formantBus.connect(output);
+
+    // Consonantes: Ruido -> Filtro -> Salida
+    this.consonantSynth = new Tone.NoiseSynth({
+      context,
+      noise: { type: 'white' },
+      envelope: { attack: 0.001, decay: 0.04, sustain: 0, release: 0.02 }
+    });
+    this.consonantFilter = new Tone.Filter({ context, type: 'bandpass', frequency: 2500, Q: 2 });
+    this.consonantSynth.connect(this.consonantFilter);
+    this.consonantFilter.connect(output);
+  }
+
+  /**
+   * Ajusta el timbre para la letra de una señal, justo antes de que suene su nota
+   */
+  apply(signal: AudioSignal, velocity: number, time: number, config: AudioConfig): void {
+    const vowel = signal.characterClass === 'letter' ? getVowel(signal.character) : null;
+
+    // Las vocales pasan por sus formantes; el resto, directo
+    if (config.vowelFormants && vowel) {
+      VOWEL_FORMANTS[vowel].forEach((frequency, i) => {
+        this.formants[i].frequency.rampTo(frequency, 0.02, time);
+      });
+      this.dry.gain.rampTo(VOWEL_DRY_GAIN, 0.02, time);
+      this.formantBus.gain.rampTo(1, 0.02, time);
+    } else {
+      this.dry.gain.rampTo(1, 0.02, time);
+      this.formantBus.gain.rampTo(0, 0.02, time);
+    }
+
+    if (config.characterTimbre && signal.characterClass === 'letter' && !vowel) {
+      this.consonantFilter.frequency.setValueAtTime(getConsonantNoiseFrequency(signal.character), time);
+
+      const vol = -22 + (velocity * 10);
+      this.consonantSynth.triggerAttackRelease(0.04, time, Math.pow(10, vol / 20));
+    }
+  }
+
+  /**
+   * Libera los nodos
+   */
+  dispose(): void {
+    this.input.dispose();
+    this.dry.dispose();
+    this.formantBus.dispose();
+    this.formants.forEach(filter => filter.dispose());
+    this.formantLevels.forEach(level => level.dispose());
+    this.consonantSynth.dispose();
+    this.consonantFilter.dispose();
+  }
+}
@@ -0,0 +1,210 @@
+import * as Tone from 'tone';
+import type { AudioConfig, AudioSignal } from '../types';
+import { Tuning } from './Tuning';
+
+/**
+ * Contexto del motor y nodo al que se conecta el drone
+ */
+export interface DroneLayerOptions {
+  context: Tone.BaseContext;
+  output: Tone.InputNode;
+}
+
+/**
+ * Armonías del drone a lo largo del texto, en semitonos sobre la tónica:
+ * de una quinta vacía al principio a un acorde abierto al final
+ */
+const DRONE_HARMONIES = [
+  [0, 7, 12, 19],
+  [0, 7, 14, 16, 19],
+  [-3, 4, 9, 12, 16],
+  [-7, 5, 9, 12, 17],
+  [0, 7, 11, 16, 19, 23]
+];
+
+/**
+ * Semitono que roza la tónica cuando hay muchos errores recientes
+ */
+const TENSION_INTERVAL = 13;
+const TENSION_ERROR_RATE = 0.2;
+
+/**
+ * Teclas que cuentan para la tasa de errores reciente
+ */
+const ERROR_WINDOW = 20;
+
+/**
+ * Ganancia máxima del drone (con el nivel al 100%) y fundidos de entrada y salida (s)
+ */
+const DRONE_GAIN = 0.5;
+const FADE_IN_SECONDS = 2;
+const FADE_OUT_SECONDS = 4;
+
+/**
+ * DroneLayer
+ *
+ * Fondo continuo del AudioEngine: un pad sostenido y ruido rosa filtrados
+ * que siguen sonando cuando el usuario se detiene.
+ * - Armonía: según el progreso en el texto (bloque / total de bloques)
+ * - Densidad y brillo del filtro: según la velocidad de tecleado
+ * - Ruido y tensión: según la tasa de errores reciente
+ *
+ * Las notas comunes entre dos armonías se sostienen y el resto entra y sale
+ * con envolventes lentas, así que el cambio de bloque es un fundido cruzado.
+ */
+export class DroneLayer {
+  private pad: Tone.PolySynth;
+  private noise: Tone.Noise;
+  private noiseGain: Tone.Gain;
+  private filter: Tone.Filter;
+  private output: Tone.Gain;
+
+  private level: number = 0.5;
+  private playing: boolean = false;
+  private notes: Set<number> = new Set(); // Frecuencias sonando
+  private speed: number = 0;              // Velocidad suavizada (0-1)
+  private recentErrors: boolean[] = [];
+
+  constructor(options: DroneLayerOptions) {
+    const { context } = options;
+
+    this.pad = new Tone.PolySynth({
+      context,
+      voice: Tone.Synth,
+      options: {
+        oscillator: { type: 'fatsawtooth', count: 3, spread: 20 },
+        envelope: { attack: 3, decay: 1, sustain: 0.8, release: FADE_OUT_SECONDS }
+      }
+    });
+
+    this.noise = new Tone.Noise({ context, type: 'pink' });
+    this.noiseGain = new Tone.Gain({ context, gain: 0 });
+
+    this.filter = new Tone.Filter({ context, type: 'lowpass', frequency: 400, Q: 0.7 });
+    this.output = new Tone.Gain({ context, gain: 0 });
+
+    // Pad y ruido -> Filtro -> Salida
+    this.pad.connect(this.filter);
+    this.noise.connect(this.noiseGain);
+    this.noiseGain.connect(this.filter);
+    this.filter.connect(this.output);
+    this.output.connect(options.output);
+  }
+
+  /**
+   * Ajusta el drone a una tecla (los retrocesos no lo cambian); arranca con la primera
+   * @param config Configuración efectiva (usuario + pistas del bloque)
+   */
+  update(signal: AudioSignal, velocity: number, time: number, config: AudioConfig): void {
+    if (signal.signalType !== 'keystroke') return;
+
+    this.speed = this.speed * 0.8 + velocity * 0.2;
+
+    this.recentErrors.push(signal.isError);
+    if (this.recentErrors.length > ERROR_WINDOW) {
+      this.recentErrors.shift();
+    }
+    const errorRate = this.recentErrors.filter(Boolean).length / this.recentErrors.length;
+
+    if (!this.playing) {
+      this.playing = true;
+      this.noise.start(time);
+      this.output.gain.cancelScheduledValues(time);
+      this.output.gain.rampTo(this.level * DRONE_GAIN, FADE_IN_SECONDS, time);
+    }
+
+    const progress = signal.totalBlocksInText > 1
+      ? signal.blockIndexInText / (signal.totalBlocksInText - 1)
+      : 0;
+
+    this.setNotes(this.getTargetNotes(progress, errorRate, config), time);
+
+    // Más brillo al avanzar y al teclear rápido; más oscuro con errores
+    const cutoff = (250 + progress * 600 + this.speed * 1500) * (1 - errorRate * 0.5);
+    this.filter.frequency.rampTo(cutoff, 1.5, time);
+
+    this.noiseGain.gain.rampTo(0.02 + this.speed * 0.03 + errorRate * 0.15, 1, time);
+  }
+
+  /**
+   * Frecuencias del drone: la armonía del punto del texto, con más voces al
+   * teclear rápido y un semitono de tensión si hay muchos errores recientes
+   */
+  private getTargetNotes(progress: number, errorRate: number, config: AudioConfig): number[] {
+    const index = Math.min(DRONE_HARMONIES.length - 1, Math.floor(progress * DRONE_HARMONIES.length));
+    const harmony = DRONE_HARMONIES[index];
+    const tonic = config.tuningRoot + (config.baseOctave - 1) * 12; // Tónica dos octavas por debajo de las letras
+
+    const voices = 2 + Math.round(this.speed * (harmony.length - 2));
+    const notes = harmony.slice(0, voices).map(interval => tonic + interval);
+
+    if (errorRate >= TENSION_ERROR_RATE) {
+      notes.push(tonic + TENSION_INTERVAL);
+    }
+
+    return notes.map(note => Tuning.getMidiFrequency(note, config));
+  }
+
+  /**
+   * Sostiene las notas comunes, suelta las que sobran y ataca las nuevas
+   */
+  private setNotes(target: number[], time: number): void {
+    const next = new Set(target);
+
+    this.notes.forEach(note => {
+      if (!next.has(note)) {
+        this.pad.triggerRelease(note, time);
+      }
+    });
+
+    next.forEach(note => {
+      if (!this.notes.has(note)) {
+        this.pad.triggerAttack(note, time, 0.3);
+      }
+    });
+
+    this.notes = next;
+  }
+
+  /**
+   * Apaga el drone con un fundido y olvida la velocidad y los errores recientes
+   */
+  stop(time: number): void {
+    this.speed = 0;
+    this.recentErrors = [];
+    if (!this.playing) return;
+
+    this.playing = false;
+    this.pad.releaseAll(time);
+    this.notes.clear();
+
+    this.output.gain.cancelScheduledValues(time);
+    this.output.gain.rampTo(0, FADE_OUT_SECONDS, time);
+    this.noise.stop(time + FADE_OUT_SECONDS);
+  }
+
+  /**
+   * Cambia el nivel del drone (0-1)
+   */
+  setLevel(level: number, time?: number): void {
+    this.level = level;
+    if (this.playing) {
+      this.output.gain.rampTo(level * DRONE_GAIN, 0.2, time);
+    }
+  }
+
+  /**
+   * Silencia el drone y libera sus nodos
+   */
+  dispose(): void {
+    this.pad.releaseAll();
+    if (this.noise.state === 'started') {
+      this.noise.stop();
+    }
+    this.pad.dispose();
+    this.noise.dispose();
+    this.noiseGain.dispose();
+    this.filter.dispose();
+    this.output.dispose();
+  }
+}
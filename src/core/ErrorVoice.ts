@@ -0,0 +1,189 @@
+import * as Tone from 'tone';
+import type { AudioConfig, AudioSignal, ErrorSound } from '../types';
+import { getPitchStep } from '../utils/characterMapping';
+import { SCALES, Tuning } from './Tuning';
+
+/**
+ * Contexto del motor y nodo al que se conecta la voz de los errores
+ */
+export interface ErrorVoiceOptions {
+  context: Tone.BaseContext;
+  output: Tone.InputNode;
+}
+
+/**
+ * Sonidos de error disponibles
+ */
+export const ERROR_SOUNDS: readonly ErrorSound[] = ['cluster', 'noise', 'detuned', 'silence'];
+
+/**
+ * Cluster disonante: Mi2, un semitono arriba y el tritono; con la escalada
+ * se añaden la séptima mayor y la novena menor
+ */
+const CLUSTER_ROOT = 40;
+const CLUSTER_INTERVALS = [0, 1, 6];
+const CLUSTER_ESCALATION_INTERVALS = [11, 13];
+
+/**
+ * Fallos seguidos en la misma letra a partir de los cuales la escalada es máxima
+ */
+const MAX_ESCALATION_STREAK = 5;
+
+/**
+ * ErrorVoice
+ *
+ * Voz dedicada a los errores del AudioEngine, con sus propios sintetizadores
+ * para no robar voces a la música. El timbre se elige en la configuración:
+ * - Cluster: segunda menor y tritono en el registro grave
+ * - Ruido: un golpe de ruido filtrado
+ * - Repetición desafinada: la nota que debía sonar, desafinada
+ * - Silencio
+ *
+ * Con la escalada activa, fallar varias veces seguidas la misma letra hace
+ * el error más fuerte, largo y disonante; una tecla correcta lo calma.
+ */
+export class ErrorVoice {
+  private clusterSynth: Tone.PolySynth;
+  private noiseSynth: Tone.NoiseSynth;
+  private noiseFilter: Tone.Filter;
+  private detunedSynth: Tone.PolySynth;
+
+  private lastPosition: string | null = null;
+  private streak: number = 0; // Fallos seguidos en la misma letra
+
+  constructor({ context, output }: ErrorVoiceOptions) {
+    this.clusterSynth = new Tone.PolySynth({
+      context,
+      voice: Tone.Synth,
+      options: {
+        oscillator: { type: 'sine' },
+        envelope: { attack: 0.01, decay: 0.3, sustain: 0.3, release: 0.7 }
+      }
+    });
+    this.clusterSynth.connect(output);
+
+    this.noiseSynth = new Tone.NoiseSynth({
+      context,
+      noise: { type: 'white' },
+      envelope: { attack: 0.002, decay: 0.12, sustain: 0, release: 0.08 }
+    });
+    this.noiseFilter = new Tone.Filter({ context, type: 'bandpass', frequency: 800, Q: 1.5 });
+    this.noiseSynth.connect(this.noiseFilter);
+    this.noiseFilter.connect(output);
+
+    this.detunedSynth = new Tone.PolySynth({
+      context,
+      voice: Tone.Synth,
+      options: {
+        oscillator: { type: 'triangle' },
+        envelope: { attack: 0.005, decay: 0.2, sustain: 0.1, release: 0.3 }
+      }
+    });
+    this.detunedSynth.connect(output);
+  }
+
+  /**
+   * Toca un error con el timbre de la configuración
+   * @param expectedFrequency Nota con la que el modo activo tocaría la letra esperada
+   */
+  play(signal: AudioSignal, velocity: number, time: number, config: AudioConfig, expectedFrequency?: number): void {
+    const level = this.escalate(signal, config);
+
+    switch (config.errorSound) {
+      case 'cluster':
+        this.playCluster(velocity, level, time);
+        break;
+      case 'noise':
+        this.playNoise(velocity, level, time);
+        break;
+      case 'detuned':
+        this.playDetuned(expectedFrequency ?? this.getScaleFrequency(signal, config), velocity, level, time);
+        break;
+      case 'silence':
+        break;
+    }
+  }
+
+  /**
+   * Olvida los fallos seguidos (tras una tecla correcta o al reiniciar)
+   */
+  calm(): void {
+    this.lastPosition = null;
+    this.streak = 0;
+  }
+
+  /**
+   * Cuenta el fallo y devuelve la escalada (0-1) según los fallos seguidos en
+   * la misma letra (0 si la escalada está desactivada)
+   */
+  private escalate(signal: AudioSignal, config: AudioConfig): number {
+    const position = `${signal.blockIndexInText}:${signal.wordIndexInBlock}:${signal.letterIndexInWord}`;
+    this.streak = position === this.lastPosition ? this.streak + 1 : 1;
+    this.lastPosition = position;
+
+    if (!config.errorEscalation) return 0;
+    return Math.min(this.streak - 1, MAX_ESCALATION_STREAK - 1) / (MAX_ESCALATION_STREAK - 1);
+  }
+
+  /**
+   * Cluster grave: más notas, más fuerte y más largo con la escalada
+   */
+  private playCluster(velocity: number, level: number, time: number): void {
+    const intervals = level > 0
+      ? [...CLUSTER_INTERVALS, ...CLUSTER_ESCALATION_INTERVALS.slice(0, Math.ceil(level * CLUSTER_ESCALATION_INTERVALS.length))]
+      : CLUSTER_INTERVALS;
+
+    const duration = level > 0 ? 0.125 + level * 0.35 : '16n';
+    const vol = -12 + (velocity * 8) + (level * 6);
+
+    intervals.forEach((interval, i) => {
+      const frequency = Tone.Frequency(CLUSTER_ROOT + interval, 'midi').toFrequency();
+      this.clusterSynth.triggerAttackRelease(frequency, duration, time + (i * 0.02), Math.pow(10, vol / 20));
+    });
+  }
+
+  /**
+   * Golpe de ruido: más agudo, largo y fuerte con la escalada
+   */
+  private playNoise(velocity: number, level: number, time: number): void {
+    this.noiseFilter.frequency.setValueAtTime(800 + level * 2400, time);
+
+    const vol = -16 + (velocity * 8) + (level * 6);
+    this.noiseSynth.triggerAttackRelease(0.06 + level * 0.2, time, Math.pow(10, vol / 20));
+  }
+
+  /**
+   * La nota que debía sonar, desafinada un cuarto de tono; con la escalada se
+   * desafina más y se dobla con otra copia desafinada hacia arriba que bate
+   */
+  private playDetuned(expected: number, velocity: number, level: number, time: number): void {
+    const cents = 50 + level * 50;
+    const frequencies = [expected * Math.pow(2, -cents / 1200)];
+    if (level > 0) {
+      frequencies.push(expected * Math.pow(2, (cents * 0.6) / 1200));
+    }
+
+    const vol = -16 + (velocity * 10) + (level * 4);
+    this.detunedSynth.triggerAttackRelease(frequencies, 0.15 + level * 0.25, time, Math.pow(10, vol / 20));
+  }
+
+  /**
+   * Nota de la letra en la escala de la configuración (pentatónica si es la
+   * de cada modo), para los modos que no dicen con qué nota sonarían
+   */
+  private getScaleFrequency(signal: AudioSignal, config: AudioConfig): number {
+    const step = getPitchStep(signal, config.characterPitch);
+    const octave = config.baseOctave + Math.floor(signal.wordIndexInBlock / 5);
+    return Tuning.getScaleFrequency(step, octave, config, SCALES.majorPentatonic);
+  }
+
+  /**
+   * Libera los nodos
+   */
+  dispose(): void {
+    this.clusterSynth.dispose();
+    this.noiseSynth.dispose();
+    this.noiseFilter.dispose();
+    this.detunedSynth.dispose();
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Función que recibe los datos de un evento
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Argumentos de emit: los eventos sin datos (void) no llevan ninguno
+ */
+type EventArgs<T> = [T] extends [void] ? [] : [T];
+
+/**
+ * EventBus
+ *
+ * Emisor de eventos tipado: el mapa de eventos (nombre -> datos) fija qué se
+ * puede emitir y qué recibe cada suscriptor.
+ *
+ * Un suscriptor que lanza una excepción no impide que los demás reciban el evento.
+ */
+export class EventBus<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<EventListener<Events[K]>> } = {};
+
+  /**
+   * Suscribe una función a un evento
+   * @returns Función para cancelar la suscripción
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let listeners = this.listeners[event];
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners[event] = listeners;
+    }
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Cancela una suscripción
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Entrega un evento a sus suscriptores, en el orden en que se suscribieron
+   */
+  emit<K extends keyof Events>(event: K, ...args: EventArgs<Events[K]>): void {
+    const listeners = this.listeners[event];
+    if (!listeners) return;
+
+    // Copia: un suscriptor puede cancelar suscripciones durante la entrega
+    [...listeners].forEach(listener => {
+      try {
+        listener(args[0] as Events[K]); // Sin datos, undefined (void)
+      } catch (error) {
+        console.error(`Error in "${String(event)}" listener`, error);
+      }
+    });
+  }
+
+  /**
+   * Cancela todas las suscripciones
+   */
+  clear(): void {
+    this.listeners = {};
+  }
+}
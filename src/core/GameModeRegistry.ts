@@ -0,0 +1,101 @@
+import type { AudioSignal, GameModeId, GameSummary, TextCompletion, TypingStatsSnapshot } from '../types';
+
+/**
+ * Lo que la aplicación ofrece a una partida en curso
+ */
+export interface GameModeHost {
+  /**
+   * Termina la partida y muestra la pantalla final (p. ej. al acabar el tiempo)
+   */
+  finish(): void;
+
+  /**
+   * Muestra un texto de estado durante la partida (null para ocultarlo)
+   */
+  setStatus(text: string | null): void;
+}
+
+/**
+ * Partida en curso de un modo de juego
+ */
+export interface GameModeSession {
+  /**
+   * Ocultar las letras que aún no se han tecleado
+   */
+  readonly hideUpcoming: boolean;
+
+  /**
+   * Si los errores cuentan en las estadísticas
+   */
+  readonly countsErrors: boolean;
+
+  /**
+   * Recibe cada señal del tecleado
+   */
+  onSignal(signal: AudioSignal): void;
+
+  /**
+   * Regla de fin: qué hacer al completar un texto
+   */
+  onTextComplete(): TextCompletion;
+
+  /**
+   * Construye la pantalla final a partir de las estadísticas de la partida
+   */
+  getSummary(snapshot: TypingStatsSnapshot): GameSummary;
+
+  dispose(): void;
+}
+
+/**
+ * Modo de juego registrable: identificador, nombre visible, descripción
+ * y cómo empezar una partida
+ */
+export interface GameModeDefinition {
+  id: GameModeId;
+  label: string;
+  description: string;
+  create(host: GameModeHost): GameModeSession;
+}
+
+/**
+ * GameModeRegistry
+ *
+ * Catálogo de modos de juego. Los modos se registran al arrancar
+ * (ver gameModes/index.ts) y el selector de textos y la aplicación
+ * los consultan aquí.
+ */
+export class GameModeRegistry {
+  private static modes = new Map<GameModeId, GameModeDefinition>();
+
+  /**
+   * Registra un modo (el identificador no puede repetirse)
+   */
+  static register(definition: GameModeDefinition): void {
+    if (this.modes.has(definition.id)) {
+      throw new Error(`Game mode already registered: ${definition.id}`);
+    }
+    this.modes.set(definition.id, definition);
+  }
+
+  /**
+   * Obtiene un modo por su identificador
+   */
+  static get(id: GameModeId): GameModeDefinition | undefined {
+    return this.modes.get(id);
+  }
+
+  /**
+   * Indica si un modo está registrado
+   */
+  static has(id: GameModeId): boolean {
+    return this.modes.has(id);
+  }
+
+  /**
+   * Obtiene todos los modos en orden de registro
+   */
+  static getAll(): GameModeDefinition[] {
+    return Array.from(this.modes.values());
+  }
+}
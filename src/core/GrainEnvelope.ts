@@ -0,0 +1,117 @@
+import ktPatch from '../../previous/kt.pd?raw';
+
+/**
+ * Array del patch original que dibuja la envolvente
+ */
+const DEFAULT_ARRAY_NAME = 'env';
+
+/**
+ * GrainEnvelope
+ *
+ * Tabla de envolvente del modo granular. Por defecto es el array "env" de
+ * 100 puntos dibujado en previous/kt.pd; se puede sustituir cargando otro
+ * patch de Pure Data (hasta recargar la página).
+ *
+ * Como en el patch ([tabread4 env] -> [clip 0 1]), los valores se recortan a 0-1.
+ */
+export class GrainEnvelope {
+  private static defaultTable: Float32Array | null = null;
+  private static customTable: Float32Array | null = null;
+  private static customName: string | null = null;
+
+  /**
+   * Tabla actual (valores 0-1)
+   */
+  static get(): Float32Array {
+    if (this.customTable) return this.customTable;
+
+    if (!this.defaultTable) {
+      this.defaultTable = this.toTable(this.parsePdArray(ktPatch, DEFAULT_ARRAY_NAME));
+    }
+    return this.defaultTable;
+  }
+
+  /**
+   * Nombre del array en uso ("env" de kt.pd por defecto)
+   */
+  static getName(): string {
+    return this.customName ?? `${DEFAULT_ARRAY_NAME} (kt.pd)`;
+  }
+
+  /**
+   * Carga la tabla de un patch de Pure Data
+   * @param name Array a usar ("env" si existe; si no, el primero del patch)
+   */
+  static load(patch: string, name?: string): void {
+    const arrayName = name ?? (this.hasArray(patch, DEFAULT_ARRAY_NAME)
+      ? DEFAULT_ARRAY_NAME
+      : /#X array (\S+)/.exec(patch)?.[1]);
+    const values = this.parsePdArray(patch, arrayName);
+
+    this.customTable = this.toTable(values);
+    this.customName = arrayName ?? null;
+  }
+
+  /**
+   * Vuelve a la tabla de kt.pd
+   */
+  static reset(): void {
+    this.customTable = null;
+    this.customName = null;
+  }
+
+  /**
+   * Lee los valores de un array ("#X array nombre tamaño float ...;" seguido
+   * de sus líneas "#A inicio valores...;")
+   * @param name Nombre del array (el primero si se omite)
+   */
+  static parsePdArray(patch: string, name?: string): number[] {
+    // Las sentencias de Pd terminan en ';' (los escapados '\;' son parte de un mensaje)
+    const statements = patch
+      .split(/(?<!\\);/)
+      .map(statement => statement.trim().split(/\s+/));
+
+    let values: number[] | null = null;
+
+    for (const parts of statements) {
+      if (values) {
+        // Los datos del array siguen a su declaración
+        if (parts[0] !== '#A') break;
+
+        const start = parseInt(parts[1], 10);
+        parts.slice(2).forEach((value, i) => {
+          if (start + i < values!.length) values![start + i] = parseFloat(value);
+        });
+      } else if (parts[0] === '#X' && parts[1] === 'array' && (name === undefined || parts[2] === name)) {
+        const size = parseInt(parts[3], 10);
+        if (!(size > 1)) {
+          throw new Error(`Invalid Pd array size: ${parts[3]}`);
+        }
+        values = new Array(size).fill(0);
+      }
+    }
+
+    if (!values) {
+      throw new Error(name ? `Pd array not found: ${name}` : 'The patch has no arrays');
+    }
+    if (values.some(value => !Number.isFinite(value))) {
+      throw new Error('Invalid Pd array data');
+    }
+
+    return values;
+  }
+
+  /**
+   * Indica si el patch declara un array con ese nombre
+   */
+  private static hasArray(patch: string, name: string): boolean {
+    return new RegExp(`#X array ${name}\\s`).test(patch);
+  }
+
+  /**
+   * Recorta los valores a 0-1
+   */
+  private static toTable(values: number[]): Float32Array {
+    return Float32Array.from(values, value => Math.min(Math.max(value, 0), 1));
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { SignalType, TypingEventMap } from '../types';
+import { EventBus } from './EventBus';
+import { KeyboardController } from './KeyboardController';
+import { TextParser } from './TextParser';
+import { BOUNDARY_EVENTS } from './TypingSignals';
+
+/**
+ * Controlador en marcha sobre un texto, con los finales que va emitiendo
+ */
+function createController(text: string): { controller: KeyboardController; boundaries: SignalType[] } {
+  const events = new EventBus<TypingEventMap>();
+  const controller = new KeyboardController(TextParser.parse(text), events);
+  const boundaries: SignalType[] = [];
+  BOUNDARY_EVENTS.forEach(event => {
+    events.on(event, signal => boundaries.push(signal.signalType));
+  });
+  controller.start();
+  return { controller, boundaries };
+}
+
+describe('KeyboardController', () => {
+  it('skips words with nothing to type under the typeable policy', () => {
+    const { controller, boundaries } = createController('1984 uno 2\n— dos');
+
+    // La primera palabra con letras es "uno"
+    expect(controller.getState()).toMatchObject({ currentBlockIndex: 0, currentWordIndex: 1 });
+
+    [...'uno'].forEach(key => controller.handleKeyPress(key));
+
+    // Se saltan "2" (final de línea) y "—"
+    expect(controller.getState()).toMatchObject({ currentBlockIndex: 0, currentWordIndex: 4, currentLetterIndex: 0 });
+    expect(boundaries).toEqual(['wordComplete', 'lineComplete']);
+
+    [...'dos'].forEach(key => controller.handleKeyPress(key));
+
+    expect(controller.getState().isActive).toBe(false);
+    expect(boundaries.slice(2)).toEqual(['wordComplete', 'lineComplete', 'blockComplete', 'textComplete']);
+  });
+
+  it('finishes the text when the last words have nothing to type', () => {
+    const { controller, boundaries } = createController('uno 1984');
+
+    [...'uno'].forEach(key => controller.handleKeyPress(key));
+
+    expect(controller.getState().isActive).toBe(false);
+    expect(boundaries).toContain('textComplete');
+  });
+
+  it('keeps digit-only words in strict mode', () => {
+    const events = new EventBus<TypingEventMap>();
+    const controller = new KeyboardController(TextParser.parse('1984 uno'), events, { strict: true });
+    controller.start();
+
+    controller.handleKeyPress('1');
+
+    expect(controller.getState()).toMatchObject({ currentWordIndex: 0, currentLetterIndex: 1, hasError: false });
+  });
+});
@@ -1,33 +1,90 @@
-import type { ParsedText, AudioSignal, TypingState, Character } from '../types';
+import type {
+  ParsedText,
+  AudioSignal,
+  TypingState,
+  Character,
+  TypingOptions,
+  Word,
+  ErrorPolicy,
+  TextPosition,
+  SignalType,
+  TypingEventMap
+} from '../types';
 import { TextParser } from './TextParser';
+import type { EventBus } from './EventBus';
+import { TypingSignals } from './TypingSignals';
+
+/**
+ * Opciones de tecleado por defecto
+ */
+export const DEFAULT_TYPING_OPTIONS: TypingOptions = {
+  ignoreDiacritics: false,
+  strict: false,
+  errorPolicy: 'stop'
+};
+
+/**
+ * Políticas de error disponibles
+ */
+export const ERROR_POLICIES: readonly ErrorPolicy[] = ['stop', 'advance', 'free'];
+
+/**
+ * Signos tipográficos que se aceptan con su equivalente del teclado
+ * (en modo estricto, la puntuación del texto rara vez está en el teclado)
+ */
+const KEYBOARD_EQUIVALENTS: Record<string, string> = {
+  '\u2018': "'", // ‘
+  '\u2019': "'", // ’
+  '\u201C': '"', // “
+  '\u201D': '"', // ”
+  '\u00AB': '"', // «
+  '\u00BB': '"', // »
+  '\u2013': '-', // –
+  '\u2014': '-', // —
+  '\u00A0': ' '  // Espacio de no separación
+};
 
 /**
  * KeyboardController
  *
  * Gestiona el estado del tecleado y valida las teclas presionadas.
- * Genera las señales de control para el motor de audio.
+ * Publica las señales de control y los cambios de estado en el EventBus
+ * (ver TypingEventMap), donde los reciben el motor de audio, la pantalla
+ * y el resto de subsistemas.
+ *
+ * La comparación de teclas usa el idioma del texto para ignorar mayúsculas
+ * (y, opcionalmente, los diacríticos: "e" vale para "é").
+ *
+ * En modo estricto la secuencia incluye espacios, puntuación y saltos de
+ * línea (la tecla Enter llega como '\n').
+ *
+ * La política de error decide si el cursor se detiene en una tecla equivocada
+ * ('stop') o sigue adelante ('advance', 'free'). Backspace deshace las teclas
+ * en orden inverso usando el historial de posiciones tecleadas.
  */
 export class KeyboardController {
   private parsedText: ParsedText;
   private state: TypingState;
-  private onAudioSignal: (signal: AudioSignal) => void;
-  private onStateChange: (state: TypingState) => void;
-  private onComplete: () => void;
+  private events: EventBus<TypingEventMap>;
+  private options: TypingOptions;
+  private collator: Intl.Collator;
+  private history: TextPosition[] = []; // Posiciones tecleadas, en orden
 
   constructor(
     parsedText: ParsedText,
-    onAudioSignal: (signal: AudioSignal) => void,
-    onStateChange: (state: TypingState) => void,
-    onComplete: () => void
+    events: EventBus<TypingEventMap>,
+    options?: Partial<TypingOptions>
   ) {
     this.parsedText = parsedText;
-    this.onAudioSignal = onAudioSignal;
-    this.onStateChange = onStateChange;
-    this.onComplete = onComplete;
+    this.events = events;
+    this.options = {
+      ...DEFAULT_TYPING_OPTIONS,
+      ...options
+    };
+    this.collator = this.createCollator();
 
     this.state = {
-      currentBlockIndex: 0,
-      currentWordIndex: 0,
+      ...this.getStartPosition(),
       currentLetterIndex: 0,
       isActive: false,
       hasError: false,
@@ -56,8 +113,7 @@ export class KeyboardController {
    */
   reset(): void {
     this.state = {
-      currentBlockIndex: 0,
-      currentWordIndex: 0,
+      ...this.getStartPosition(),
       currentLetterIndex: 0,
       isActive: false,
       hasError: false,
@@ -67,14 +123,15 @@ export class KeyboardController {
     // Resetear todos los caracteres
     this.parsedText.blocks.forEach(block => {
       block.words.forEach(word => {
-        word.characters.forEach(char => {
-          char.isTyped = false;
-          char.isError = false;
+        [...word.characters, ...(word.separator ? [word.separator] : [])].forEach(char => {
+          this.clearCharacter(char);
         });
       });
     });
+    this.history = [];
 
     this.notifyStateChange();
+    this.events.emit('reset');
   }
 
   /**
@@ -86,23 +143,22 @@ export class KeyboardController {
     const currentChar = this.getCurrentCharacter();
     if (!currentChar) return;
 
-    // Normalizar la tecla presionada (lowercase)
-    const normalizedKey = key.toLowerCase();
-    const expectedChar = currentChar.char.toLowerCase();
-
-    const isCorrect = normalizedKey === expectedChar;
+    const isCorrect = this.matches(key, currentChar);
 
     // Generar señal de audio
     const signal = this.generateAudioSignal(isCorrect);
-    this.onAudioSignal(signal);
+    signal.typedCharacter = key;
+    TypingSignals.emitKey(this.events, signal);
 
     if (isCorrect) {
       // Marcar como tecleado
       currentChar.isTyped = true;
       currentChar.isError = false;
+      currentChar.typedValue = undefined;
       this.state.hasError = false;
 
       // Avanzar al siguiente carácter
+      this.history.push(this.getPosition());
       this.advance();
     } else {
       // Error
@@ -110,39 +166,209 @@ export class KeyboardController {
       this.state.hasError = true;
       this.state.totalErrors++;
 
-      // El error se visualiza pero no bloquea el avance
-      // (el usuario puede seguir intentando)
+      if (this.options.errorPolicy !== 'stop') {
+        // El carácter se queda con la tecla equivocada y el cursor sigue
+        currentChar.typedValue = key;
+        this.history.push(this.getPosition());
+        this.advance();
+      }
+      // Con 'stop' el error se visualiza y el usuario sigue intentando
     }
 
     this.notifyStateChange();
+
+    // Finales de palabra, línea, bloque y texto, con la pantalla ya actualizada
+    TypingSignals.emitBoundaries(this.events, this.parsedText, signal, this.state);
+  }
+
+  /**
+   * Maneja Backspace: borra el último carácter tecleado, o con Ctrl/Alt
+   * hasta el inicio de la palabra (con la política 'free' no se corrige)
+   */
+  handleBackspace(wholeWord: boolean = false): void {
+    if (!this.state.isActive || this.options.errorPolicy === 'free') return;
+
+    // Un error pendiente en el carácter actual ('stop') se borra sin retroceder
+    const currentChar = this.getCurrentCharacter();
+    if (currentChar?.isError) {
+      this.clearCharacter(currentChar);
+      this.state.hasError = false;
+
+      if (!wholeWord) {
+        TypingSignals.emitKey(this.events, this.generateAudioSignal(true, 'retreat'));
+        this.notifyStateChange();
+        return;
+      }
+    }
+
+    let target = this.history.pop();
+    if (!target) {
+      this.notifyStateChange();
+      return;
+    }
+
+    // Ctrl+Backspace: seguir borrando mientras sea la misma palabra
+    while (wholeWord && this.history.length > 0 && this.isSameWord(this.history[this.history.length - 1], target)) {
+      this.clearCharacter(this.getCharacterAt(target));
+      target = this.history.pop()!;
+    }
+    this.clearCharacter(this.getCharacterAt(target));
+
+    this.state.currentBlockIndex = target.blockIndex;
+    this.state.currentWordIndex = target.wordIndex;
+    this.state.currentLetterIndex = target.letterIndex;
+    this.state.hasError = false;
+
+    TypingSignals.emitKey(this.events, this.generateAudioSignal(true, 'retreat'));
+    this.notifyStateChange();
+  }
+
+  /**
+   * Devuelve un carácter a su estado sin teclear
+   */
+  private clearCharacter(char: Character): void {
+    char.isTyped = false;
+    char.isError = false;
+    char.typedValue = undefined;
+  }
+
+  /**
+   * Posición actual del cursor
+   */
+  private getPosition(): TextPosition {
+    return {
+      blockIndex: this.state.currentBlockIndex,
+      wordIndex: this.state.currentWordIndex,
+      letterIndex: this.state.currentLetterIndex
+    };
+  }
+
+  /**
+   * Carácter tecleable en una posición
+   */
+  private getCharacterAt(position: TextPosition): Character {
+    const word = this.parsedText.blocks[position.blockIndex].words[position.wordIndex];
+    return this.getTypeable(word)[position.letterIndex];
   }
 
   /**
-   * Avanza al siguiente carácter (letra)
+   * Indica si dos posiciones están en la misma palabra
+   */
+  private isSameWord(a: TextPosition, b: TextPosition): boolean {
+    return a.blockIndex === b.blockIndex && a.wordIndex === b.wordIndex;
+  }
+
+  /**
+   * Indica si queda algún carácter con un error sin corregir
+   */
+  private hasUncorrectedErrors(): boolean {
+    return this.parsedText.blocks.some(block =>
+      block.words.some(word => this.getTypeable(word).some(char => char.isError))
+    );
+  }
+
+  /**
+   * Compara la tecla presionada con el carácter esperado
+   */
+  private matches(key: string, expected: Character): boolean {
+    const characterClass = TextParser.classifyCharacter(expected.char);
+
+    // Letras y dígitos según el idioma; el resto, exacto o con su equivalente del teclado
+    if (characterClass === 'letter' || characterClass === 'digit') {
+      return this.collator.compare(key.normalize('NFC'), expected.char) === 0;
+    }
+
+    return key === expected.char || key === KEYBOARD_EQUIVALENTS[expected.char];
+  }
+
+  /**
+   * Crea el comparador según el idioma del texto y las opciones de tecleado.
+   * 'accent' ignora solo mayúsculas; 'base' ignora también los diacríticos.
+   */
+  private createCollator(): Intl.Collator {
+    const sensitivity = this.options.ignoreDiacritics ? 'base' : 'accent';
+    const language = this.parsedText.frontMatter.language;
+
+    try {
+      return new Intl.Collator(language, { sensitivity, usage: 'search' });
+    } catch {
+      // Etiqueta de idioma inválida en la cabecera
+      return new Intl.Collator(undefined, { sensitivity, usage: 'search' });
+    }
+  }
+
+  /**
+   * Actualiza las opciones de tecleado
+   * (el modo estricto cambia la secuencia: hay que aplicarlo con el texto reiniciado)
+   */
+  setOptions(options: Partial<TypingOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.collator = this.createCollator();
+  }
+
+  /**
+   * Caracteres que hay que teclear en una palabra según el modo
+   */
+  private getTypeable(word: Word): Character[] {
+    return TextParser.getTypeableCharacters(word, this.options.strict);
+  }
+
+  /**
+   * Avanza al siguiente carácter (letra). Las palabras sin nada que teclear
+   * (p. ej. "1984" con la política 'letters') se saltan.
    */
   private advance(): void {
     const currentBlock = this.parsedText.blocks[this.state.currentBlockIndex];
     const currentWord = currentBlock.words[this.state.currentWordIndex];
-    const letters = TextParser.getLettersOnly(currentWord);
+    const letters = this.getTypeable(currentWord);
 
     this.state.currentLetterIndex++;
 
-    // Si terminó la palabra actual
-    if (this.state.currentLetterIndex >= letters.length) {
-      this.state.currentLetterIndex = 0;
-      this.state.currentWordIndex++;
+    // Si no terminó la palabra actual
+    if (this.state.currentLetterIndex < letters.length) return;
+
+    const next = this.findNextWord(this.state.currentBlockIndex, this.state.currentWordIndex);
 
-      // Si terminó el bloque actual
-      if (this.state.currentWordIndex >= currentBlock.words.length) {
-        this.state.currentWordIndex = 0;
-        this.state.currentBlockIndex++;
+    // Con 'advance' el texto no termina mientras queden errores: el cursor espera al final
+    if (!next && this.options.errorPolicy === 'advance' && this.hasUncorrectedErrors()) {
+      return;
+    }
+
+    this.state.currentLetterIndex = 0;
+    if (next) {
+      this.state.currentBlockIndex = next.currentBlockIndex;
+      this.state.currentWordIndex = next.currentWordIndex;
+    } else {
+      // Terminó todo el texto (handleKeyPress emite 'textComplete')
+      this.state.currentBlockIndex = this.parsedText.blocks.length;
+      this.state.currentWordIndex = 0;
+      this.state.isActive = false;
+    }
+  }
 
-        // Si terminó todo el texto
-        if (this.state.currentBlockIndex >= this.parsedText.blocks.length) {
-          this.complete();
+  /**
+   * Primera palabra con algo que teclear (fuera del texto si no hay ninguna)
+   */
+  private getStartPosition(): Pick<TypingState, 'currentBlockIndex' | 'currentWordIndex'> {
+    return this.findNextWord(0, -1) ?? { currentBlockIndex: this.parsedText.blocks.length, currentWordIndex: 0 };
+  }
+
+  /**
+   * Siguiente palabra con algo que teclear después de una posición (null si no quedan)
+   */
+  private findNextWord(
+    blockIndex: number,
+    wordIndex: number
+  ): Pick<TypingState, 'currentBlockIndex' | 'currentWordIndex'> | null {
+    for (let block = blockIndex; block < this.parsedText.blocks.length; block++) {
+      const words = this.parsedText.blocks[block].words;
+      for (let word = block === blockIndex ? wordIndex + 1 : 0; word < words.length; word++) {
+        if (this.getTypeable(words[word]).length > 0) {
+          return { currentBlockIndex: block, currentWordIndex: word };
         }
       }
     }
+    return null;
   }
 
   /**
@@ -159,7 +385,7 @@ export class KeyboardController {
     }
 
     const currentWord = currentBlock.words[this.state.currentWordIndex];
-    const letters = TextParser.getLettersOnly(currentWord);
+    const letters = this.getTypeable(currentWord);
 
     if (this.state.currentLetterIndex >= letters.length) {
       return null;
@@ -171,10 +397,10 @@ export class KeyboardController {
   /**
    * Genera la señal de audio con toda la información de contexto
    */
-  private generateAudioSignal(isCorrect: boolean): AudioSignal {
+  private generateAudioSignal(isCorrect: boolean, signalType: SignalType = 'keystroke'): AudioSignal {
     const currentBlock = this.parsedText.blocks[this.state.currentBlockIndex];
     const currentWord = currentBlock.words[this.state.currentWordIndex];
-    const letters = TextParser.getLettersOnly(currentWord);
+    const letters = this.getTypeable(currentWord);
     const currentChar = letters[this.state.currentLetterIndex];
 
     return {
@@ -184,26 +410,20 @@ export class KeyboardController {
       totalLettersInWord: letters.length,
       blockIndexInText: this.state.currentBlockIndex,
       totalBlocksInText: this.parsedText.blocks.length,
+      signalType,
       isError: !isCorrect,
+      isEmphasized: currentWord.isEmphasized,
       character: currentChar.char,
+      characterClass: TextParser.classifyCharacter(currentChar.char),
       timestamp: Date.now()
     };
   }
 
-  /**
-   * Completa el proceso de tecleado
-   */
-  private complete(): void {
-    this.state.isActive = false;
-    this.notifyStateChange();
-    this.onComplete();
-  }
-
   /**
    * Notifica cambios en el estado
    */
   private notifyStateChange(): void {
-    this.onStateChange({ ...this.state });
+    this.events.emit('stateChange', { ...this.state });
   }
 
   /**
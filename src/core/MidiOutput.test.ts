@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import type { AudioSignal } from '../types';
+import { MidiOutput, type MidiPort } from './MidiOutput';
+
+/**
+ * Puerto falso que guarda los mensajes enviados
+ */
+class FakePort implements MidiPort {
+  messages: { data: number[]; timestamp?: number }[] = [];
+
+  send(data: number[], timestamp?: number): void {
+    this.messages.push({ data, timestamp });
+  }
+}
+
+/**
+ * Señal de una letra correcta: bloque 3 de 5, palabra 4 de 7, segunda letra
+ */
+function createSignal(overrides: Partial<AudioSignal> = {}): AudioSignal {
+  return {
+    wordIndexInBlock: 3,
+    totalWordsInBlock: 7,
+    letterIndexInWord: 1,
+    totalLettersInWord: 4,
+    blockIndexInText: 2,
+    totalBlocksInText: 5,
+    signalType: 'keystroke',
+    isError: false,
+    isEmphasized: false,
+    character: 'o',
+    characterClass: 'letter',
+    typedCharacter: 'o',
+    timestamp: 1000,
+    ...overrides
+  };
+}
+
+/**
+ * Salida con reloj fijo en 500 ms y el puerto falso conectado
+ */
+function createOutput(): { output: MidiOutput; port: FakePort } {
+  const output = new MidiOutput({}, () => 500);
+  const port = new FakePort();
+  output.setPort(port);
+  return { output, port };
+}
+
+describe('MidiOutput', () => {
+  it('sends the progress CCs, note-on and timed note-off on the block channel', () => {
+    const { output, port } = createOutput();
+
+    output.send(createSignal(), 0.1);
+
+    // Canal 2; nota: segundo grado de la pentatónica en la octava 4 (2 + 48);
+    // velocidad mínima porque es la primera tecla tras una pausa larga
+    expect(port.messages).toEqual([
+      { data: [0xb2, 20, 64], timestamp: 600 },
+      { data: [0xb2, 21, 64], timestamp: 600 },
+      { data: [0x92, 50, 1], timestamp: 600 },
+      { data: [0x82, 50, 0], timestamp: 800 }
+    ]);
+  });
+
+  it('wraps the channel every 16 blocks', () => {
+    const { output, port } = createOutput();
+
+    output.send(createSignal({ blockIndexInText: 17, totalBlocksInText: 20 }));
+
+    expect(port.messages.map(message => message.data[0])).toEqual([0xb1, 0xb1, 0x91, 0x81]);
+  });
+
+  it('plays the error note and skips retreats', () => {
+    const { output, port } = createOutput();
+
+    output.send(createSignal({ signalType: 'retreat' }));
+    expect(port.messages).toEqual([]);
+
+    output.send(createSignal({ isError: true }));
+    expect(port.messages[2].data.slice(0, 2)).toEqual([0x92, 36]);
+    expect(port.messages[3].data).toEqual([0x82, 36, 0]);
+  });
+
+  it('measures the velocity from the last key press, including retreats', () => {
+    const { output, port } = createOutput();
+
+    output.send(createSignal({ timestamp: 1000 }));
+    output.send(createSignal({ signalType: 'retreat', timestamp: 1400 }));
+    output.send(createSignal({ timestamp: 1450 }));
+
+    // 50 ms desde el retroceso: velocidad máxima
+    expect(port.messages[6].data).toEqual([0x92, 50, 127]);
+  });
+
+  it('sends All Notes Off on every channel when the port changes', () => {
+    const { output, port } = createOutput();
+
+    output.setPort(new FakePort());
+
+    expect(port.messages).toHaveLength(16);
+    port.messages.forEach((message, channel) => {
+      expect(message.data).toEqual([0xb0 | channel, 123, 0]);
+    });
+  });
+});
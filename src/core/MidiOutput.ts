@@ -0,0 +1,201 @@
+import type { AudioSignal, MidiOutputConfig, SignalOutput } from '../types';
+import { calculateVelocity } from '../utils/velocity';
+
+/**
+ * Puerto MIDI mínimo: el subconjunto de MIDIOutput que se usa.
+ * Permite sustituir el dispositivo por un puerto falso (p. ej. en Node).
+ */
+export interface MidiPort {
+  send(data: number[], timestamp?: number): void;
+}
+
+/**
+ * Dispositivo MIDI disponible para el selector
+ */
+export interface MidiDeviceInfo {
+  id: string;
+  name: string;
+}
+
+/**
+ * Mensajes MIDI de canal (el nibble bajo es el canal)
+ */
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CONTROL_CHANGE = 0xb0;
+
+/**
+ * CC 123: All Notes Off
+ */
+const ALL_NOTES_OFF = 123;
+
+/**
+ * Misma escala que el modo pentatónico del AudioEngine
+ */
+const PENTATONIC_SCALE = [0, 2, 4, 7, 9];
+
+/**
+ * MidiOutput
+ *
+ * Envía cada señal de audio como mensajes MIDI a un sintetizador o DAW:
+ * - Nota: escala pentatónica por letra, una octava más cada 5 palabras
+ * - Velocidad: la misma dinámica por tiempo entre teclas que el AudioEngine
+ * - Canal: uno por bloque (bloque % 16)
+ * - CCs: progreso en el texto (bloque) y en el bloque (palabra)
+ *
+ * Los note-off se programan con el timestamp del puerto, sin temporizadores.
+ */
+export class MidiOutput implements SignalOutput {
+  private config: MidiOutputConfig;
+  private port: MidiPort | null = null;
+  private access: MIDIAccess | null = null;
+  private lastKeyPressTime: number = 0;
+  private now: () => number;
+
+  /**
+   * @param now Reloj en ms con la misma base que los timestamps del puerto
+   */
+  constructor(config?: Partial<MidiOutputConfig>, now: () => number = () => performance.now()) {
+    this.config = {
+      baseOctave: 4,
+      noteLengthMs: 200,
+      errorNote: 36,
+      blockProgressCC: 20,
+      wordProgressCC: 21,
+      ...config
+    };
+    this.now = now;
+  }
+
+  /**
+   * Solicita acceso a Web MIDI y lista los dispositivos de salida
+   */
+  async scanDevices(): Promise<MidiDeviceInfo[]> {
+    if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+      throw new Error('Web MIDI is not supported in this browser');
+    }
+
+    this.access = await navigator.requestMIDIAccess();
+
+    return Array.from(this.access.outputs.values()).map(output => ({
+      id: output.id,
+      name: output.name ?? output.id
+    }));
+  }
+
+  /**
+   * Elige un dispositivo de los encontrados en scanDevices (null para desactivar)
+   */
+  selectDevice(id: string | null): void {
+    const output = id !== null ? this.access?.outputs.get(id) ?? null : null;
+    this.setPort(output);
+  }
+
+  /**
+   * Cambia el puerto de salida, silenciando el anterior
+   */
+  setPort(port: MidiPort | null): void {
+    if (this.port && this.port !== port) {
+      this.allNotesOff(this.port);
+    }
+    this.port = port;
+  }
+
+  /**
+   * Envía una señal como nota MIDI más los CCs de progreso
+   * @param delay Segundos hasta que suena (el paso de la rejilla si se cuantiza)
+   */
+  send(signal: AudioSignal, delay: number = 0): void {
+    if (!this.port) return;
+
+    // Velocidad a partir del tiempo entre teclas, igual que en el AudioEngine
+    // (los retrocesos también cuentan como tecla)
+    const timeDelta = signal.timestamp - this.lastKeyPressTime;
+    let velocity = calculateVelocity(timeDelta);
+    this.lastKeyPressTime = signal.timestamp;
+
+    // Los retrocesos no tienen nota
+    if (signal.signalType === 'retreat') return;
+
+    const channel = signal.blockIndexInText % 16;
+    const time = this.now() + delay * 1000;
+
+    if (signal.isEmphasized) {
+      velocity = Math.min(1, velocity + 0.3);
+    }
+
+    this.port.send([
+      CONTROL_CHANGE | channel,
+      this.config.blockProgressCC,
+      this.toProgress(signal.blockIndexInText, signal.totalBlocksInText)
+    ], time);
+    this.port.send([
+      CONTROL_CHANGE | channel,
+      this.config.wordProgressCC,
+      this.toProgress(signal.wordIndexInBlock, signal.totalWordsInBlock)
+    ], time);
+
+    const note = signal.isError ? this.config.errorNote : this.calculateNote(signal);
+    const midiVelocity = 1 + Math.round(velocity * 126);
+
+    this.port.send([NOTE_ON | channel, note, midiVelocity], time);
+    this.port.send([NOTE_OFF | channel, note, 0], time + this.config.noteLengthMs);
+  }
+
+  /**
+   * Nota MIDI de una letra (misma escala que el modo pentatónico)
+   */
+  private calculateNote(signal: AudioSignal): number {
+    const scaleIndex = signal.letterIndexInWord % PENTATONIC_SCALE.length;
+    const octave = this.config.baseOctave + Math.floor(signal.wordIndexInBlock / 5);
+    const note = PENTATONIC_SCALE[scaleIndex] + octave * 12;
+
+    return Math.max(0, Math.min(127, note));
+  }
+
+  /**
+   * Convierte una posición en un valor de CC (0-127)
+   */
+  private toProgress(index: number, total: number): number {
+    if (total <= 1) return 0;
+    return Math.round((index / (total - 1)) * 127);
+  }
+
+  /**
+   * Envía All Notes Off en todos los canales
+   */
+  private allNotesOff(port: MidiPort): void {
+    for (let channel = 0; channel < 16; channel++) {
+      port.send([CONTROL_CHANGE | channel, ALL_NOTES_OFF, 0]);
+    }
+  }
+
+  /**
+   * Indica si hay un dispositivo seleccionado
+   */
+  isConnected(): boolean {
+    return this.port !== null;
+  }
+
+  /**
+   * Cambia la configuración de la salida
+   */
+  updateConfig(config: Partial<MidiOutputConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Obtiene la configuración actual
+   */
+  getConfig(): MidiOutputConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Silencia el dispositivo y libera recursos
+   */
+  dispose(): void {
+    this.setPort(null);
+    this.access = null;
+  }
+}
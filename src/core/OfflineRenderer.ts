@@ -0,0 +1,87 @@
+import * as Tone from 'tone';
+import type { ParsedText, SessionRecording, TypingEventMap, WavBitDepth } from '../types';
+import { AudioEngine } from './AudioEngine';
+import { EventBus } from './EventBus';
+import { BOUNDARY_EVENTS, TypingSignals } from './TypingSignals';
+import { WavEncoder } from './WavEncoder';
+
+/**
+ * Silencio antes de la primera nota (s)
+ */
+const LEAD_IN_SECONDS = 0.1;
+
+/**
+ * Cola tras la última nota para que terminen la coda, el release, la reverb y el delay (s)
+ */
+const TAIL_SECONDS = 8;
+
+/**
+ * Frecuencia de muestreo de los archivos exportados
+ */
+const SAMPLE_RATE = 44100;
+
+/**
+ * OfflineRenderer
+ *
+ * Renderiza una grabación a un archivo WAV sin reproducirla: reconstruye el
+ * grafo del AudioEngine dentro de un contexto Tone.Offline y programa cada
+ * señal en su tiempo relativo original. Los finales de palabra, línea,
+ * bloque y texto se deducen de cada evento igual que en la reproducción.
+ */
+export class OfflineRenderer {
+  /**
+   * Renderiza la grabación y la codifica como WAV
+   * @param parsedText Texto de la grabación (para las pistas de audio por bloque)
+   */
+  static async render(
+    recording: SessionRecording,
+    parsedText: ParsedText,
+    bitDepth: WavBitDepth
+  ): Promise<Blob> {
+    const events = recording.events;
+    if (events.length === 0) {
+      throw new Error('The recording has no events to render');
+    }
+
+    const firstTimestamp = events[0].signal.timestamp;
+    const lastTimestamp = events[events.length - 1].signal.timestamp;
+    const duration = LEAD_IN_SECONDS + (lastTimestamp - firstTimestamp) / 1000 + TAIL_SECONDS;
+
+    let engine: AudioEngine | null = null;
+
+    const buffer = await Tone.Offline(async (context) => {
+      engine = new AudioEngine(recording.audioConfig, { context });
+
+      // Mismo orden que en la reproducción: ajustes del texto y luego la configuración grabada
+      engine.loadTextSettings(parsedText);
+      engine.updateConfig({ ...recording.audioConfig, enabled: true });
+
+      await engine.initialize();
+      await engine.ready;
+
+      // Las muestras deben estar decodificadas antes de programar la primera nota
+      await engine.prepare();
+
+      let time = 0;
+      const boundaries = new EventBus<TypingEventMap>();
+      BOUNDARY_EVENTS.forEach(event => {
+        boundaries.on(event, (signal) => engine!.processSignal(signal, time));
+      });
+
+      events.forEach(({ signal, state }) => {
+        time = LEAD_IN_SECONDS + (signal.timestamp - firstTimestamp) / 1000;
+        engine!.processSignal(signal, time);
+        TypingSignals.emitBoundaries(boundaries, parsedText, signal, state);
+      });
+    }, duration, 2, SAMPLE_RATE);
+
+    (engine as AudioEngine | null)?.dispose();
+
+    const audioBuffer = buffer.get();
+    if (!audioBuffer) {
+      throw new Error('Offline rendering produced no audio');
+    }
+
+    return WavEncoder.encode(audioBuffer, bitDepth);
+  }
+}
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AudioSignal } from '../types';
+import { OscBridge } from './OscBridge';
+
+/**
+ * WebSocket falso, siempre abierto, que guarda los mensajes enviados
+ */
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readonly readyState = FakeWebSocket.OPEN;
+  binaryType = 'blob';
+  sent: Uint8Array[] = [];
+
+  constructor() {
+    FakeWebSocket.instances.push(this);
+  }
+
+  addEventListener(): void {}
+  close(): void {}
+
+  send(data: ArrayBuffer | Uint8Array): void {
+    this.sent.push(data instanceof Uint8Array ? data : new Uint8Array(data));
+  }
+}
+
+/**
+ * Dirección de un mensaje OSC (la primera cadena terminada en NUL)
+ */
+function readAddress(message: Uint8Array): string {
+  return new TextDecoder().decode(message.slice(0, message.indexOf(0)));
+}
+
+/**
+ * Envía la tecla de un carácter y devuelve la dirección del mensaje
+ */
+function sendCharacter(character: string): string {
+  FakeWebSocket.instances = [];
+  const bridge = new OscBridge({ enabled: true, correctAddress: '/kt/{block}/{char}' });
+  const signal = {
+    blockIndexInText: 2,
+    wordIndexInBlock: 0,
+    letterIndexInWord: 0,
+    totalBlocksInText: 3,
+    totalWordsInBlock: 1,
+    totalLettersInWord: 1,
+    signalType: 'keystroke',
+    isError: false,
+    isEmphasized: false,
+    character,
+    characterClass: 'letter',
+    timestamp: 0
+  } as AudioSignal;
+
+  bridge.send(signal);
+  return readAddress(FakeWebSocket.instances[0].sent[0]);
+}
+
+describe('OscBridge', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps ASCII letters and digits in {char} and maps the rest to safe tokens', () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+
+    expect(sendCharacter('a')).toBe('/kt/2/a');
+    expect(sendCharacter('7')).toBe('/kt/2/7');
+    expect(sendCharacter(' ')).toBe('/kt/2/space');
+    expect(sendCharacter('\n')).toBe('/kt/2/newline');
+    expect(sendCharacter('á')).toBe('/kt/2/u00e1');
+    ['#', '*', ',', '?', '/', '['].forEach(char => {
+      expect(sendCharacter(char)).toMatch(/^\/kt\/2\/u00[0-9a-f]{2}$/);
+    });
+  });
+});
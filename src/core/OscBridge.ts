@@ -0,0 +1,220 @@
+import type { AudioSignal, OscArgument, OscBridgeConfig, OscBridgeEventMap, OscBridgeStatus, SignalOutput } from '../types';
+import { EventBus } from './EventBus';
+import { OscEncoder } from './OscEncoder';
+
+/**
+ * Tiempo de espera antes de reintentar la conexión con el relay (ms)
+ */
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * Nombres del marcador {char} para los caracteres que no son letras ni dígitos ASCII
+ */
+const CHARACTER_ALIASES: Record<string, string> = {
+  ' ': 'space',
+  '\n': 'newline'
+};
+
+/**
+ * OscBridge
+ *
+ * Envía cada señal de audio como mensaje OSC por WebSocket a un relay local
+ * (scripts/osc-relay.js), que lo reenvía por UDP a Pure Data, SuperCollider o Max.
+ *
+ * Los tres primeros argumentos reproducen el mensaje del prototipo en Unity
+ * ("iBlock iWord iChar"), así que el patch previous/kt.pd puede recibirlos con
+ * [netreceive -u -b] -> [oscparse] -> [list trim] -> [route controllerMessage].
+ *
+ * El estado de la conexión se publica en `events` (el panel lo muestra).
+ */
+export class OscBridge implements SignalOutput {
+  readonly events = new EventBus<OscBridgeEventMap>();
+
+  private config: OscBridgeConfig;
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private status: OscBridgeStatus = 'off';
+
+  constructor(config?: Partial<OscBridgeConfig>) {
+    this.config = {
+      enabled: false,
+      url: 'ws://localhost:8765',
+      correctAddress: '/controllerMessage',
+      errorAddress: '/controllerError',
+      retreatAddress: '/controllerRetreat',
+      ...config
+    };
+
+    if (this.config.enabled) {
+      this.connect();
+    }
+  }
+
+  /**
+   * Envía una señal como mensaje OSC (si el puente está conectado)
+   * @param delay Segundos hasta que suena (el paso de la rejilla si se cuantiza)
+   */
+  send(signal: AudioSignal, delay: number = 0): void {
+    if (!this.config.enabled || this.socket?.readyState !== WebSocket.OPEN) return;
+
+    const address = this.expandAddress(this.getAddressPattern(signal), signal);
+
+    const args: OscArgument[] = [
+      signal.blockIndexInText,
+      signal.wordIndexInBlock,
+      signal.letterIndexInWord,
+      signal.character,
+      signal.totalBlocksInText,
+      signal.totalWordsInBlock,
+      signal.totalLettersInWord,
+      signal.isEmphasized,
+      signal.characterClass
+    ];
+
+    const message = OscEncoder.encode(address, args);
+    if (delay > 0) {
+      // Sin marcas de tiempo en el relay UDP: se envía al llegar el paso
+      setTimeout(() => {
+        if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(message);
+      }, delay * 1000);
+    } else {
+      this.socket.send(message);
+    }
+  }
+
+  /**
+   * Dirección según el tipo de señal: retroceso, error o tecla correcta
+   */
+  private getAddressPattern(signal: AudioSignal): string {
+    if (signal.signalType === 'retreat') return this.config.retreatAddress;
+    return signal.isError ? this.config.errorAddress : this.config.correctAddress;
+  }
+
+  /**
+   * Sustituye los marcadores de la dirección por los valores de la señal
+   */
+  private expandAddress(pattern: string, signal: AudioSignal): string {
+    return pattern
+      .replace(/\{block\}/g, String(signal.blockIndexInText))
+      .replace(/\{word\}/g, String(signal.wordIndexInBlock))
+      .replace(/\{letter\}/g, String(signal.letterIndexInWord))
+      .replace(/\{char\}/g, this.toAddressToken(signal.character));
+  }
+
+  /**
+   * Carácter como parte segura de una dirección OSC: los espacios, '/', '#'
+   * y los comodines ('*', '?', '[', '{', ',') la invalidan o la convierten en
+   * un patrón. Fuera de las letras y dígitos ASCII se usa un alias o el código
+   * Unicode (p. ej. 'á' -> 'u00e1').
+   */
+  private toAddressToken(char: string): string {
+    if (/^[A-Za-z0-9]$/.test(char)) return char;
+    if (CHARACTER_ALIASES[char]) return CHARACTER_ALIASES[char];
+
+    return 'u' + (char.codePointAt(0) ?? 0).toString(16).padStart(4, '0');
+  }
+
+  /**
+   * Abre la conexión con el relay, reintentando si se cierra
+   */
+  private connect(): void {
+    this.disconnect();
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.config.url);
+    } catch {
+      this.setStatus('invalidUrl');
+      return;
+    }
+
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+    this.setStatus('connecting');
+
+    socket.addEventListener('open', () => {
+      if (this.socket === socket) this.setStatus('connected');
+    });
+
+    socket.addEventListener('close', () => {
+      // Ignorar el cierre de conexiones ya reemplazadas
+      if (this.socket !== socket) return;
+
+      this.socket = null;
+      if (this.config.enabled) {
+        this.setStatus('reconnecting');
+        this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+      }
+    });
+  }
+
+  /**
+   * Cierra la conexión y cancela los reintentos
+   */
+  private disconnect(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.setStatus('off');
+  }
+
+  /**
+   * Guarda y publica el estado de la conexión
+   */
+  private setStatus(status: OscBridgeStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.events.emit('status', status);
+  }
+
+  /**
+   * Estado actual de la conexión
+   */
+  getStatus(): OscBridgeStatus {
+    return this.status;
+  }
+
+  /**
+   * Indica si hay conexión con el relay
+   */
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Cambia la configuración del puente
+   */
+  updateConfig(config: Partial<OscBridgeConfig>): void {
+    const urlChanged = config.url !== undefined && config.url !== this.config.url;
+    this.config = { ...this.config, ...config };
+
+    if (!this.config.enabled) {
+      this.disconnect();
+    } else if (urlChanged || !this.socket) {
+      this.connect();
+    }
+  }
+
+  /**
+   * Obtiene la configuración actual
+   */
+  getConfig(): OscBridgeConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Cierra la conexión y libera recursos
+   */
+  dispose(): void {
+    this.config.enabled = false;
+    this.disconnect();
+    this.events.clear();
+  }
+}
@@ -0,0 +1,65 @@
+import type { OscArgument } from '../types';
+
+/**
+ * OscEncoder
+ *
+ * Codifica mensajes OSC 1.0 (dirección, type tags y argumentos alineados a 4 bytes).
+ * Los enteros se envían como 'i', los decimales como 'f', los textos como 's'
+ * y los booleanos como 'T'/'F'.
+ */
+export class OscEncoder {
+  private static textEncoder = new TextEncoder();
+
+  /**
+   * Codifica un mensaje OSC
+   */
+  static encode(address: string, args: OscArgument[]): Uint8Array {
+    const typeTags = ',' + args.map(arg => this.typeTag(arg)).join('');
+    const parts: Uint8Array[] = [this.encodeString(address), this.encodeString(typeTags)];
+
+    args.forEach(arg => {
+      if (typeof arg === 'string') {
+        parts.push(this.encodeString(arg));
+      } else if (typeof arg === 'number') {
+        const bytes = new Uint8Array(4);
+        const view = new DataView(bytes.buffer);
+        if (Number.isInteger(arg)) {
+          view.setInt32(0, arg);
+        } else {
+          view.setFloat32(0, arg);
+        }
+        parts.push(bytes);
+      }
+      // Los booleanos no ocupan bytes, solo su type tag
+    });
+
+    const length = parts.reduce((total, part) => total + part.length, 0);
+    const message = new Uint8Array(length);
+    let offset = 0;
+    parts.forEach(part => {
+      message.set(part, offset);
+      offset += part.length;
+    });
+
+    return message;
+  }
+
+  /**
+   * Type tag de un argumento
+   */
+  private static typeTag(arg: OscArgument): string {
+    if (typeof arg === 'string') return 's';
+    if (typeof arg === 'boolean') return arg ? 'T' : 'F';
+    return Number.isInteger(arg) ? 'i' : 'f';
+  }
+
+  /**
+   * Codifica un texto UTF-8 terminado en null y rellenado hasta múltiplo de 4
+   */
+  private static encodeString(text: string): Uint8Array {
+    const bytes = this.textEncoder.encode(text);
+    const padded = new Uint8Array(Math.ceil((bytes.length + 1) / 4) * 4);
+    padded.set(bytes);
+    return padded;
+  }
+}
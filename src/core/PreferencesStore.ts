@@ -0,0 +1,384 @@
+import type {
+  AudioConfig,
+  PreferencesPreset,
+  TypingOptions,
+  UserPreferences,
+  ViewportConfig,
+  VisualEffectsConfig
+} from '../types';
+import { DEFAULT_AUDIO_CONFIG, VOLUME_RANGE } from './AudioEngine';
+import { DEFAULT_TYPING_OPTIONS, ERROR_POLICIES } from './KeyboardController';
+import { SamplePackLibrary } from './SamplePackLibrary';
+import { SynthesisModeRegistry } from './SynthesisModeRegistry';
+import { EDO_DIVISIONS, SCALE_NAMES, TUNING_SYSTEMS } from './Tuning';
+import { QUANTIZE_SUBDIVISIONS, TEMPO_RANGE } from './Quantizer';
+import { ERROR_SOUNDS } from './ErrorVoice';
+import { DEFAULT_VIEWPORT_CONFIG } from './ViewportManager';
+import { DEFAULT_VISUAL_EFFECTS_CONFIG } from './VisualEffects';
+import { CHARACTER_PITCH_MAPPINGS } from '../utils/characterMapping';
+
+/**
+ * Clave en localStorage y versión actual del esquema guardado
+ */
+const STORAGE_KEY = 'keyboard-tale:preferences';
+const SCHEMA_VERSION = 1;
+
+/**
+ * Identificador del formato de los archivos de presets exportados
+ */
+const PRESETS_FORMAT = 'keyboard-tale-presets';
+
+/**
+ * Datos guardados en localStorage
+ */
+interface StoredPreferences {
+  version: number;
+  preferences: UserPreferences | null;
+  presets: PreferencesPreset[];
+}
+
+/**
+ * Migraciones del esquema: la entrada N convierte datos de la versión N a la N + 1
+ * (solo existe la versión 1)
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {};
+
+/**
+ * PreferencesStore
+ *
+ * Guarda la configuración de audio, las opciones de tecleado, el desplazamiento
+ * del texto y los efectos visuales en localStorage
+ * para restaurarlas en la siguiente visita, y gestiona presets con nombre
+ * (guardar, renombrar, borrar, importar y exportar como JSON).
+ *
+ * Los valores guardados se validan al leerlos: los campos desconocidos o con
+ * un tipo incorrecto se sustituyen por los valores por defecto.
+ */
+export class PreferencesStore {
+  private storage: Storage | null;
+  private data: StoredPreferences;
+
+  /**
+   * @param storage Almacenamiento a usar (null para no persistir nada)
+   */
+  constructor(storage: Storage | null = PreferencesStore.defaultStorage()) {
+    this.storage = storage;
+    this.data = this.read();
+  }
+
+  /**
+   * Obtiene las preferencias guardadas (null si no hay ninguna)
+   */
+  load(): UserPreferences | null {
+    return this.data.preferences ? this.clone(this.data.preferences) : null;
+  }
+
+  /**
+   * Guarda las preferencias actuales
+   */
+  save(preferences: UserPreferences): void {
+    this.data.preferences = this.clone(preferences);
+    this.write();
+  }
+
+  /**
+   * Obtiene los presets ordenados por nombre
+   */
+  getPresets(): PreferencesPreset[] {
+    return this.data.presets
+      .map(preset => this.clone(preset))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Obtiene un preset por su nombre
+   */
+  getPreset(name: string): PreferencesPreset | undefined {
+    const preset = this.data.presets.find(p => p.name === name);
+    return preset ? this.clone(preset) : undefined;
+  }
+
+  /**
+   * Guarda un preset (sustituye al que tenga el mismo nombre)
+   */
+  savePreset(name: string, preferences: UserPreferences): void {
+    const presetName = this.validateName(name);
+    this.data.presets = this.data.presets.filter(p => p.name !== presetName);
+    this.data.presets.push({ name: presetName, ...this.clone(preferences) });
+    this.write();
+  }
+
+  /**
+   * Cambia el nombre de un preset
+   */
+  renamePreset(name: string, newName: string): void {
+    const preset = this.data.presets.find(p => p.name === name);
+    if (!preset) {
+      throw new Error(`Preset not found: ${name}`);
+    }
+
+    const presetName = this.validateName(newName);
+    if (presetName !== name && this.data.presets.some(p => p.name === presetName)) {
+      throw new Error(`A preset named "${presetName}" already exists`);
+    }
+
+    preset.name = presetName;
+    this.write();
+  }
+
+  /**
+   * Borra un preset
+   */
+  deletePreset(name: string): void {
+    this.data.presets = this.data.presets.filter(p => p.name !== name);
+    this.write();
+  }
+
+  /**
+   * Serializa todos los presets a JSON para exportarlos
+   */
+  exportPresets(): string {
+    return JSON.stringify({
+      format: PRESETS_FORMAT,
+      version: SCHEMA_VERSION,
+      presets: this.getPresets()
+    }, null, 2);
+  }
+
+  /**
+   * Importa presets desde JSON (sustituye los que tengan el mismo nombre)
+   * @returns Número de presets importados
+   */
+  importPresets(json: string): number {
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Invalid presets file: not valid JSON');
+    }
+
+    if (data?.format !== PRESETS_FORMAT || typeof data.version !== 'number') {
+      throw new Error('Invalid presets file: unknown format');
+    }
+
+    if (data.version > SCHEMA_VERSION) {
+      throw new Error(`Unsupported presets version ${data.version} (latest is ${SCHEMA_VERSION})`);
+    }
+
+    const presets = this.migrate(data).presets;
+    if (!Array.isArray(presets)) {
+      throw new Error('Invalid presets file: missing presets');
+    }
+
+    const imported = presets
+      .map(preset => this.sanitizePreset(preset))
+      .filter((preset): preset is PreferencesPreset => preset !== null);
+
+    imported.forEach(preset => {
+      this.data.presets = this.data.presets.filter(p => p.name !== preset.name);
+      this.data.presets.push(preset);
+    });
+    this.write();
+
+    return imported.length;
+  }
+
+  /**
+   * Lee los datos guardados, migrándolos a la versión actual
+   */
+  private read(): StoredPreferences {
+    const empty: StoredPreferences = { version: SCHEMA_VERSION, preferences: null, presets: [] };
+
+    let raw: string | null = null;
+    try {
+      raw = this.storage?.getItem(STORAGE_KEY) ?? null;
+    } catch (error) {
+      console.warn('Could not read preferences', error);
+    }
+    if (!raw) return empty;
+
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      console.warn('Stored preferences are not valid JSON, using defaults');
+      return empty;
+    }
+
+    if (typeof data?.version !== 'number' || data.version > SCHEMA_VERSION) {
+      console.warn(`Unsupported preferences version ${data?.version}, using defaults`);
+      return empty;
+    }
+
+    let migrated: Record<string, unknown>;
+    try {
+      migrated = this.migrate(data);
+    } catch (error) {
+      console.warn('Could not migrate preferences, using defaults', error);
+      return empty;
+    }
+
+    const presets = Array.isArray(migrated.presets) ? migrated.presets : [];
+
+    return {
+      version: SCHEMA_VERSION,
+      preferences: migrated.preferences ? this.sanitize(migrated.preferences) : null,
+      presets: presets
+        .map(preset => this.sanitizePreset(preset))
+        .filter((preset): preset is PreferencesPreset => preset !== null)
+    };
+  }
+
+  /**
+   * Escribe los datos en el almacenamiento
+   */
+  private write(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      console.warn('Could not save preferences', error);
+    }
+  }
+
+  /**
+   * Aplica las migraciones pendientes hasta la versión actual
+   */
+  private migrate(data: Record<string, unknown>): Record<string, unknown> {
+    let migrated = data;
+    for (let version = data.version as number; version < SCHEMA_VERSION; version++) {
+      const migration = MIGRATIONS[version];
+      if (!migration) {
+        throw new Error(`No migration from preferences version ${version}`);
+      }
+      migrated = migration(migrated);
+    }
+    return migrated;
+  }
+
+  /**
+   * Valida unas preferencias leídas, completando con los valores por defecto
+   */
+  private sanitize(value: unknown): UserPreferences {
+    const data = (value ?? {}) as Partial<Record<keyof UserPreferences, unknown>>;
+
+    const audioConfig = PreferencesStore.sanitizeAudioConfig(data.audioConfig);
+    const typingOptions = PreferencesStore.sanitizeTypingOptions(data.typingOptions);
+
+    const viewport = PreferencesStore.pickKnown<ViewportConfig>(DEFAULT_VIEWPORT_CONFIG, data.viewport);
+    viewport.focalPosition = Math.min(Math.max(viewport.focalPosition, 0), 1);
+
+    const visualEffects = PreferencesStore.pickKnown<VisualEffectsConfig>(DEFAULT_VISUAL_EFFECTS_CONFIG, data.visualEffects);
+    visualEffects.intensity = Math.min(Math.max(visualEffects.intensity, 0), 1);
+
+    return { audioConfig, typingOptions, viewport, visualEffects };
+  }
+
+  /**
+   * Valida una configuración de audio leída (también la de las grabaciones),
+   * completando con los valores por defecto
+   */
+  static sanitizeAudioConfig(value: unknown): AudioConfig {
+    const audioConfig = this.pickKnown(DEFAULT_AUDIO_CONFIG, value);
+    audioConfig.volume = Math.min(Math.max(audioConfig.volume, VOLUME_RANGE.min), VOLUME_RANGE.max);
+    audioConfig.reverbAmount = Math.min(Math.max(audioConfig.reverbAmount, 0), 1);
+    audioConfig.delayAmount = Math.min(Math.max(audioConfig.delayAmount, 0), 1);
+    if (!SynthesisModeRegistry.has(audioConfig.synthesisMode)) {
+      audioConfig.synthesisMode = DEFAULT_AUDIO_CONFIG.synthesisMode;
+    }
+    audioConfig.droneLevel = Math.min(Math.max(audioConfig.droneLevel, 0), 1);
+    if (!CHARACTER_PITCH_MAPPINGS.includes(audioConfig.characterPitch)) {
+      audioConfig.characterPitch = DEFAULT_AUDIO_CONFIG.characterPitch;
+    }
+    audioConfig.tuningRoot = Math.min(Math.max(Math.round(audioConfig.tuningRoot), 0), 11);
+    if (!SCALE_NAMES.includes(audioConfig.scale)) {
+      audioConfig.scale = DEFAULT_AUDIO_CONFIG.scale;
+    }
+    if (!TUNING_SYSTEMS.includes(audioConfig.tuningSystem)) {
+      audioConfig.tuningSystem = DEFAULT_AUDIO_CONFIG.tuningSystem;
+    }
+    audioConfig.edoDivisions = Math.min(Math.max(Math.round(audioConfig.edoDivisions), EDO_DIVISIONS.min), EDO_DIVISIONS.max);
+    audioConfig.tempo = Math.min(Math.max(Math.round(audioConfig.tempo), TEMPO_RANGE.min), TEMPO_RANGE.max);
+    if (!QUANTIZE_SUBDIVISIONS.includes(audioConfig.quantizeSubdivision)) {
+      audioConfig.quantizeSubdivision = DEFAULT_AUDIO_CONFIG.quantizeSubdivision;
+    }
+    audioConfig.quantizeSwing = Math.min(Math.max(audioConfig.quantizeSwing, 0), 1);
+    if (!ERROR_SOUNDS.includes(audioConfig.errorSound)) {
+      audioConfig.errorSound = DEFAULT_AUDIO_CONFIG.errorSound;
+    }
+    // Los paquetes locales no sobreviven a una recarga
+    if (audioConfig.samplePack && !SamplePackLibrary.has(audioConfig.samplePack)) {
+      audioConfig.samplePack = DEFAULT_AUDIO_CONFIG.samplePack;
+    }
+
+    return audioConfig;
+  }
+
+  /**
+   * Valida unas opciones de tecleado leídas, completando con los valores por defecto
+   */
+  static sanitizeTypingOptions(value: unknown): TypingOptions {
+    const typingOptions = this.pickKnown<TypingOptions>(DEFAULT_TYPING_OPTIONS, value);
+    if (!ERROR_POLICIES.includes(typingOptions.errorPolicy)) {
+      typingOptions.errorPolicy = DEFAULT_TYPING_OPTIONS.errorPolicy;
+    }
+
+    return typingOptions;
+  }
+
+  /**
+   * Valida un preset leído (null si no tiene nombre)
+   */
+  private sanitizePreset(value: unknown): PreferencesPreset | null {
+    const name = (value as { name?: unknown })?.name;
+    if (typeof name !== 'string' || !name.trim()) return null;
+
+    return { name: name.trim(), ...this.sanitize(value) };
+  }
+
+  /**
+   * Copia los valores de las claves conocidas que tengan el mismo tipo que el valor por defecto
+   */
+  private static pickKnown<T extends AudioConfig | TypingOptions | ViewportConfig | VisualEffectsConfig>(defaults: T, value: unknown): T {
+    const result = { ...defaults };
+    if (typeof value !== 'object' || value === null) return result;
+
+    const source = value as Record<string, unknown>;
+    (Object.keys(defaults) as (keyof T)[]).forEach(key => {
+      const candidate = source[key as string];
+      if (typeof candidate === typeof defaults[key]) {
+        result[key] = candidate as T[keyof T];
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Valida el nombre de un preset
+   */
+  private validateName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Preset name cannot be empty');
+    }
+    return trimmed;
+  }
+
+  /**
+   * Copia profunda de datos serializables
+   */
+  private clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  /**
+   * localStorage si está disponible (puede estar bloqueado por el navegador)
+   */
+  private static defaultStorage(): Storage | null {
+    try {
+      return typeof localStorage !== 'undefined' ? localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+}
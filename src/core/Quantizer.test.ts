@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+import type * as Tone from 'tone';
+import type { AudioConfig, AudioSignal } from '../types';
+import { DEFAULT_AUDIO_CONFIG } from './AudioEngine';
+import { Quantizer } from './Quantizer';
+
+// Sin Web Audio en Node: el clic del metrónomo no necesita sonar
+vi.mock('tone', async (importOriginal) => ({
+  ...await importOriginal<typeof import('tone')>(),
+  Synth: class {
+    connect(): void {}
+    triggerAttackRelease(): void {}
+    dispose(): void {}
+  }
+}));
+
+/**
+ * Transport como el de un contexto offline mientras se programan las notas:
+ * now() sigue en 0, así que su estado siempre se lee 'stopped'
+ */
+class OfflineTransport {
+  starts: number[] = [];
+  stops: number[] = [];
+  readonly state = 'stopped';
+
+  start(time: number): void {
+    this.starts.push(time);
+  }
+
+  stop(time: number): void {
+    this.stops.push(time);
+  }
+
+  getSecondsAtTime(time: number): number {
+    return time - this.starts[this.starts.length - 1];
+  }
+
+  toSeconds(subdivision: string): number {
+    expect(subdivision).toBe('16n');
+    return 60 / 120 / 4;
+  }
+
+  scheduleRepeat(): number {
+    return 0;
+  }
+
+  clear(): void {}
+}
+
+const CONFIG: AudioConfig = {
+  ...DEFAULT_AUDIO_CONFIG,
+  quantize: true,
+  quantizeSubdivision: '16n',
+  quantizeSwing: 0,
+  metronome: false
+};
+
+const LEAD_IN = 0.1;
+const STEP = 0.125;
+
+/**
+ * Quantizer sobre un contexto offline (sin lookAhead y con el reloj en 0)
+ */
+function createQuantizer(): { quantizer: Quantizer; transport: OfflineTransport } {
+  const transport = new OfflineTransport();
+  const context = { transport, lookAhead: 0, currentTime: 0 } as unknown as Tone.BaseContext;
+  return { quantizer: new Quantizer({ context, output: {} as Tone.InputNode }), transport };
+}
+
+/**
+ * Cuantiza teclas desplazadas de la rejilla como lo hace el OfflineRenderer
+ * (cada una en su tiempo relativo tras la entrada)
+ */
+function renderOffline(timestamps: number[]): { times: number[]; transport: OfflineTransport } {
+  const { quantizer, transport } = createQuantizer();
+
+  const times = timestamps.map(timestamp => {
+    const signal = { timestamp, signalType: 'keystroke' } as AudioSignal;
+    return quantizer.quantize(signal, LEAD_IN + timestamp / 1000, CONFIG);
+  });
+
+  return { times, transport };
+}
+
+describe('Quantizer', () => {
+  it('puts offline events on the grid and starts the transport once', () => {
+    const { times, transport } = renderOffline([0, 140, 260, 610]);
+
+    expect(transport.starts).toEqual([LEAD_IN]);
+    times.forEach(time => {
+      const step = (time - LEAD_IN) / STEP;
+      expect(step).toBeCloseTo(Math.round(step), 6);
+    });
+    expect(times.map(time => Math.round((time - LEAD_IN) / STEP))).toEqual([0, 2, 3, 5]);
+  });
+
+  it('restarts the grid after stopping', () => {
+    const { quantizer, transport } = createQuantizer();
+
+    quantizer.quantize({ timestamp: 0 } as AudioSignal, 0.1, CONFIG);
+    quantizer.stop(0.5);
+    quantizer.quantize({ timestamp: 900 } as AudioSignal, 1, CONFIG);
+
+    expect(transport.starts).toEqual([0.1, 1]);
+    expect(transport.stops).toEqual([0.5]);
+  });
+});
@@ -0,0 +1,166 @@
+import * as Tone from 'tone';
+import type { AudioConfig, AudioSignal, QuantizeSubdivision } from '../types';
+
+/**
+ * Contexto del motor y nodo al que se conecta el metrónomo
+ */
+export interface QuantizerOptions {
+  context: Tone.BaseContext;
+  output: Tone.InputNode;
+}
+
+/**
+ * Subdivisiones de la rejilla disponibles
+ */
+export const QUANTIZE_SUBDIVISIONS: readonly QuantizeSubdivision[] = ['4n', '8n', '16n', '8t'];
+
+/**
+ * Límites del tempo (BPM)
+ */
+export const TEMPO_RANGE = { min: 40, max: 240 };
+
+/**
+ * Pasos que la cola puede adelantarse a la tecla; con más teclas pendientes,
+ * las siguientes se apilan en el último paso en vez de retrasarse más
+ */
+const MAX_QUEUED_STEPS = 4;
+
+/**
+ * Frecuencias del clic (primer tiempo del compás y resto) y su volumen (dB)
+ */
+const CLICK_ACCENT_FREQUENCY = 1760;
+const CLICK_FREQUENCY = 1320;
+const CLICK_VOLUME = -14;
+
+/**
+ * Quantizer
+ *
+ * Cuantización opcional del AudioEngine: cada tecla se encola en el siguiente
+ * paso libre de la rejilla de Tone.Transport (subdivisión, tempo y swing de la
+ * configuración), así que una interpretación suena a tempo aunque el tecleado
+ * no lo esté. El Transport arranca con la primera tecla.
+ *
+ * Solo se retrasa el sonido (el motor devuelve el retraso para que las salidas
+ * MIDI y OSC lo sigan): el texto y los efectos visuales reaccionan al
+ * instante. Para compensar la latencia, el paso se busca desde el momento
+ * real de la tecla (sin el lookAhead del contexto), de modo que una tecla
+ * que llega justo después de una línea de la rejilla aún cae en ella.
+ *
+ * Incluye un metrónomo con acento en el primer tiempo del compás.
+ */
+export class Quantizer {
+  private context: Tone.BaseContext;
+  private click: Tone.Synth;
+  private clickEventId: number | null = null;
+
+  private running: boolean = false;            // Rejilla en marcha (no se lee del Transport)
+  private gridStart: number = 0;               // Momento en que arrancó el Transport
+  private lastStep: number | null = null;      // Último paso ocupado
+  private lastTimestamp: number | null = null; // Timestamp de la última señal cuantizada
+  private lastTime: number = 0;                // Momento en que suena
+
+  constructor({ context, output }: QuantizerOptions) {
+    this.context = context;
+
+    this.click = new Tone.Synth({
+      context,
+      oscillator: { type: 'square' },
+      envelope: { attack: 0.001, decay: 0.03, sustain: 0, release: 0.01 }
+    });
+    this.click.connect(output);
+  }
+
+  /**
+   * Momento de la rejilla en que suena una señal. Los finales comparten el
+   * timestamp de su tecla y suenan en su mismo paso.
+   * @param time Momento previsto sin cuantizar (ahora + lookAhead en vivo)
+   */
+  quantize(signal: AudioSignal, time: number, config: AudioConfig): number {
+    if (signal.timestamp === this.lastTimestamp) return this.lastTime;
+    this.lastTimestamp = signal.timestamp;
+
+    const transport = this.context.transport;
+
+    // La primera tecla arranca la rejilla y suena sin esperar. El estado se
+    // guarda aquí: en un contexto offline now() sigue en 0 mientras se
+    // programan las notas, y transport.state leería 'stopped' en cada tecla
+    if (!this.running) {
+      transport.start(time);
+      this.setMetronome(config.metronome, config);
+      this.running = true;
+      this.gridStart = time;
+      this.lastStep = 0;
+      this.lastTime = time;
+      return time;
+    }
+
+    const keyTime = Math.max(time - this.context.lookAhead, this.context.currentTime, this.gridStart);
+    const stepSeconds = transport.toSeconds(config.quantizeSubdivision);
+    const position = transport.getSecondsAtTime(keyTime);
+
+    // Siguiente paso libre: las teclas rápidas se reparten por los pasos siguientes
+    const natural = Math.ceil(position / stepSeconds - 1e-6);
+    let step = natural;
+    if (this.lastStep !== null && step <= this.lastStep) {
+      step = this.lastStep + 1 - natural <= MAX_QUEUED_STEPS ? this.lastStep + 1 : this.lastStep;
+    }
+
+    // Swing como el de Tone.Transport: los pasos impares se retrasan hasta medio paso
+    const swing = step % 2 === 1 ? config.quantizeSwing * stepSeconds / 2 : 0;
+
+    this.lastStep = step;
+    this.lastTime = keyTime + (step * stepSeconds + swing - position);
+    return this.lastTime;
+  }
+
+  /**
+   * Activa o desactiva el clic de cada tiempo (solo suena con el Transport en marcha)
+   */
+  setMetronome(enabled: boolean, config: AudioConfig): void {
+    const transport = this.context.transport;
+    const shouldClick = enabled && config.quantize;
+
+    if (shouldClick && this.clickEventId === null) {
+      this.clickEventId = transport.scheduleRepeat((time) => this.playClick(time), '4n', 0);
+    } else if (!shouldClick && this.clickEventId !== null) {
+      transport.clear(this.clickEventId);
+      this.clickEventId = null;
+    }
+  }
+
+  /**
+   * Detiene la rejilla (la siguiente tecla la vuelve a arrancar)
+   */
+  stop(time: number): void {
+    this.lastStep = null;
+    this.lastTimestamp = null;
+    if (this.running) {
+      this.running = false;
+      this.context.transport.stop(time);
+    }
+  }
+
+  /**
+   * Toca el clic de un tiempo, más agudo en el primero del compás
+   */
+  private playClick(time: number): void {
+    const transport = this.context.transport;
+    const beat = Math.round(transport.getTicksAtTime(time) / transport.PPQ);
+    const beatsPerBar = Array.isArray(transport.timeSignature) ? transport.timeSignature[0] : transport.timeSignature;
+    const frequency = beat % beatsPerBar === 0 ? CLICK_ACCENT_FREQUENCY : CLICK_FREQUENCY;
+
+    this.click.triggerAttackRelease(frequency, 0.03, time, Math.pow(10, CLICK_VOLUME / 20));
+  }
+
+  /**
+   * Quita el metrónomo, detiene el Transport y libera los nodos
+   */
+  dispose(): void {
+    if (this.clickEventId !== null) {
+      this.context.transport.clear(this.clickEventId);
+      this.clickEventId = null;
+    }
+    this.stop(this.context.now());
+    this.click.dispose();
+  }
+}
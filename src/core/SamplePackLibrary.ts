@@ -0,0 +1,274 @@
+import * as Tone from 'tone';
+import type {
+  SamplePack,
+  SamplePackEventMap,
+  SamplePackManifest,
+  SamplePackMapping,
+  SamplePackProgress
+} from '../types';
+import { EventBus } from './EventBus';
+
+/**
+ * Manifiestos y audios de los paquetes incluidos (una carpeta por paquete en
+ * src/data/samples/). Vite resuelve los globs en tiempo de build y copia los
+ * audios como assets, así que basta con añadir una carpeta con su manifest.json.
+ */
+const manifestFiles = import.meta.glob<unknown>('../data/samples/*/manifest.json', {
+  import: 'default',
+  eager: true
+});
+
+const sampleFiles = import.meta.glob<string>('../data/samples/*/*.{wav,mp3,ogg,flac}', {
+  query: '?url',
+  import: 'default',
+  eager: true
+});
+
+/**
+ * Paquete que se usa por defecto y nombre del manifiesto dentro de la carpeta
+ */
+const DEFAULT_PACK_ID = 'pluck';
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Relaciones clave -> archivo admitidas en los manifiestos
+ */
+export const SAMPLE_PACK_MAPPINGS: SamplePackMapping[] = ['letters', 'degrees'];
+
+/**
+ * SamplePackLibrary
+ *
+ * Catálogo de paquetes de muestras del modo Sampler: los incluidos en
+ * src/data/samples/ y los cargados desde una carpeta local (estos viven
+ * hasta recargar la página). Cada paquete se decodifica una sola vez y sus
+ * buffers se comparten entre el motor en vivo y la exportación offline;
+ * el progreso se publica en `events`.
+ */
+export class SamplePackLibrary {
+  static readonly events = new EventBus<SamplePackEventMap>();
+
+  private static bundled: SamplePack[] | null = null;
+  private static local = new Map<string, SamplePack>();
+  private static buffers = new Map<string, Promise<Map<string, AudioBuffer>>>();
+  private static progress = new Map<string, SamplePackProgress>();
+
+  /**
+   * Obtiene todos los paquetes: los incluidos (por nombre) y después los locales
+   */
+  static getAll(): SamplePack[] {
+    if (!this.bundled) {
+      this.bundled = Object.entries(manifestFiles)
+        .map(([path, manifest]) => this.createBundledPack(path, manifest))
+        .filter((pack): pack is SamplePack => pack !== null)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    return [...this.bundled, ...this.local.values()];
+  }
+
+  /**
+   * Obtiene un paquete por su identificador
+   */
+  static get(id: string): SamplePack | null {
+    return this.getAll().find(pack => pack.id === id) ?? null;
+  }
+
+  /**
+   * Indica si existe un paquete
+   */
+  static has(id: string): boolean {
+    return this.get(id) !== null;
+  }
+
+  /**
+   * Obtiene el paquete por defecto (o el primero disponible)
+   */
+  static getDefault(): SamplePack | null {
+    return this.get(DEFAULT_PACK_ID) ?? this.getAll()[0] ?? null;
+  }
+
+  /**
+   * Paquete de una configuración ('' o uno que ya no existe: el de por defecto)
+   */
+  static resolve(id: string): SamplePack | null {
+    return (id ? this.get(id) : null) ?? this.getDefault();
+  }
+
+  /**
+   * Último progreso conocido de la decodificación de un paquete
+   */
+  static getProgress(id: string): SamplePackProgress | null {
+    return this.progress.get(id) ?? null;
+  }
+
+  /**
+   * Descarga y decodifica las muestras de un paquete (una sola vez)
+   * @returns Buffers por clave del manifiesto (letra o grado)
+   */
+  static load(id: string): Promise<Map<string, AudioBuffer>> {
+    const cached = this.buffers.get(id);
+    if (cached) return cached;
+
+    const pack = this.get(id);
+    if (!pack) {
+      return Promise.reject(new Error(`Sample pack not found: ${id}`));
+    }
+
+    const loading = this.decode(pack);
+    this.buffers.set(id, loading);
+
+    // Tras un fallo se puede volver a intentar
+    loading.catch(error => {
+      this.buffers.delete(id);
+      const message = error instanceof Error ? error.message : String(error);
+      this.setProgress({ ...(this.progress.get(id) ?? { id, loaded: 0, total: 0 }), error: message });
+    });
+
+    return loading;
+  }
+
+  /**
+   * Añade un paquete desde los archivos de una carpeta local (manifest.json y
+   * los audios que nombra). Un paquete con el mismo nombre sustituye al anterior.
+   */
+  static async loadFromFiles(files: File[]): Promise<SamplePack> {
+    const manifestFile = files.find(file => file.name === MANIFEST_FILE);
+    if (!manifestFile) {
+      throw new Error(`The folder has no ${MANIFEST_FILE}`);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await manifestFile.text());
+    } catch {
+      throw new Error(`Invalid ${MANIFEST_FILE}: not valid JSON`);
+    }
+    const manifest = this.parseManifest(data);
+
+    // Los audios se buscan por nombre de archivo dentro de la carpeta
+    const filesByName = new Map(files.map(file => [file.name, file]));
+    const sampleFilesByKey = Object.entries(manifest.samples).map(([key, fileName]) => {
+      const file = filesByName.get(fileName.split('/').pop() ?? fileName);
+      if (!file) {
+        throw new Error(`Missing sample file: ${fileName}`);
+      }
+      return [key, file] as const;
+    });
+
+    const id = `local:${manifest.name}`;
+    this.removeLocal(id);
+
+    const pack: SamplePack = {
+      id,
+      name: manifest.name,
+      mapping: manifest.mapping,
+      urls: Object.fromEntries(sampleFilesByKey.map(([key, file]) => [key, URL.createObjectURL(file)])),
+      isLocal: true
+    };
+    this.local.set(id, pack);
+
+    return pack;
+  }
+
+  /**
+   * Valida un manifiesto: nombre, relación y al menos una muestra.
+   * Las claves de letras se guardan en minúscula y las de grados deben ser enteros.
+   */
+  static parseManifest(value: unknown): SamplePackManifest {
+    const data = (value ?? {}) as Partial<Record<keyof SamplePackManifest, unknown>>;
+
+    if (typeof data.name !== 'string' || !data.name.trim()) {
+      throw new Error('Invalid sample pack: missing name');
+    }
+    if (!SAMPLE_PACK_MAPPINGS.includes(data.mapping as SamplePackMapping)) {
+      throw new Error(`Invalid sample pack mapping: ${String(data.mapping)}`);
+    }
+    const mapping = data.mapping as SamplePackMapping;
+
+    if (typeof data.samples !== 'object' || data.samples === null) {
+      throw new Error('Invalid sample pack: missing samples');
+    }
+
+    const samples: Record<string, string> = {};
+    Object.entries(data.samples as Record<string, unknown>).forEach(([key, fileName]) => {
+      if (typeof fileName !== 'string' || !fileName) {
+        throw new Error(`Invalid sample file for "${key}"`);
+      }
+
+      const validKey = mapping === 'letters' ? [...key].length === 1 : /^\d+$/.test(key);
+      if (!validKey) {
+        throw new Error(`Invalid sample key for ${mapping}: "${key}"`);
+      }
+
+      samples[mapping === 'letters' ? key.toLowerCase() : String(parseInt(key, 10))] = fileName;
+    });
+
+    if (Object.keys(samples).length === 0) {
+      throw new Error('Invalid sample pack: no samples');
+    }
+
+    return { name: data.name.trim(), mapping, samples };
+  }
+
+  /**
+   * Decodifica los audios de un paquete publicando el progreso
+   */
+  private static async decode(pack: SamplePack): Promise<Map<string, AudioBuffer>> {
+    const entries = Object.entries(pack.urls);
+    let loaded = 0;
+    this.setProgress({ id: pack.id, loaded, total: entries.length });
+
+    const buffers = await Promise.all(entries.map(async ([key, url]) => {
+      const buffer = await Tone.ToneAudioBuffer.load(url);
+      loaded++;
+      this.setProgress({ id: pack.id, loaded, total: entries.length });
+      return [key, buffer] as const;
+    }));
+
+    return new Map(buffers);
+  }
+
+  /**
+   * Guarda y publica el progreso de un paquete
+   */
+  private static setProgress(progress: SamplePackProgress): void {
+    this.progress.set(progress.id, progress);
+    this.events.emit('progress', { ...progress });
+  }
+
+  /**
+   * Quita un paquete local y libera las URLs de sus archivos
+   */
+  private static removeLocal(id: string): void {
+    const pack = this.local.get(id);
+    if (!pack) return;
+
+    Object.values(pack.urls).forEach(url => URL.revokeObjectURL(url));
+    this.local.delete(id);
+    this.buffers.delete(id);
+    this.progress.delete(id);
+  }
+
+  /**
+   * Crea un paquete incluido a partir de su manifiesto (null si no es válido)
+   */
+  private static createBundledPack(path: string, value: unknown): SamplePack | null {
+    const folder = path.split('/').slice(-2)[0];
+
+    try {
+      const manifest = this.parseManifest(value);
+      const urls = Object.fromEntries(Object.entries(manifest.samples).map(([key, fileName]) => {
+        const url = sampleFiles[`../data/samples/${folder}/${fileName}`];
+        if (!url) {
+          throw new Error(`Missing sample file: ${fileName}`);
+        }
+        return [key, url];
+      }));
+
+      return { id: folder, name: manifest.name, mapping: manifest.mapping, urls, isLocal: false };
+    } catch (error) {
+      console.warn(`Skipping sample pack ${folder}`, error);
+      return null;
+    }
+  }
+}
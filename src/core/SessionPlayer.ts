@@ -0,0 +1,166 @@
+import type {
+  Character,
+  ParsedText,
+  RecordedEvent,
+  SessionRecording,
+  TextPosition,
+  TypingEventMap
+} from '../types';
+import { TextParser } from './TextParser';
+import type { EventBus } from './EventBus';
+import { TypingSignals } from './TypingSignals';
+
+/**
+ * SessionPlayer
+ *
+ * Reproduce una grabación respetando los tiempos originales: cada evento
+ * se entrega en el mismo instante relativo en que ocurrió, marcando los
+ * caracteres del texto y publicando en el EventBus los mismos eventos que
+ * el KeyboardController.
+ *
+ * Si la grabación termina sin completar el texto (p. ej. un sprint), al
+ * acabar se emite igualmente 'textComplete' con la última señal.
+ */
+export class SessionPlayer {
+  private parsedText: ParsedText;
+  private events: EventBus<TypingEventMap>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private playing: boolean = false;
+  private strict: boolean = false;
+  private history: TextPosition[] = []; // Posiciones tecleadas, como en el KeyboardController
+
+  constructor(parsedText: ParsedText, events: EventBus<TypingEventMap>) {
+    this.parsedText = parsedText;
+    this.events = events;
+  }
+
+  /**
+   * Reproduce la grabación desde el principio
+   */
+  play(recording: SessionRecording): void {
+    this.stop();
+
+    const events = recording.events;
+    if (events.length === 0) return;
+
+    this.playing = true;
+    this.strict = recording.typingOptions?.strict ?? false;
+    this.history = [];
+
+    const firstTimestamp = events[0].signal.timestamp;
+    const startTime = performance.now();
+    let index = 0;
+    let completed = false;
+
+    // Se programa un evento cada vez, midiendo contra el inicio para no acumular deriva
+    const scheduleNext = () => {
+      if (index >= events.length) {
+        this.playing = false;
+        this.timer = null;
+        if (!completed) {
+          const last = events[events.length - 1].signal;
+          this.events.emit('textComplete', TypingSignals.boundary(last, 'textComplete'));
+        }
+        return;
+      }
+
+      const offset = events[index].signal.timestamp - firstTimestamp;
+      const delay = Math.max(0, offset - (performance.now() - startTime));
+
+      this.timer = setTimeout(() => {
+        completed = this.applyEvent(events[index]);
+        index++;
+        scheduleNext();
+      }, delay);
+    };
+
+    scheduleNext();
+  }
+
+  /**
+   * Detiene la reproducción
+   */
+  stop(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.playing = false;
+  }
+
+  /**
+   * Indica si hay una reproducción en curso
+   */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Aplica un evento: marca el carácter y emite la señal, el estado y los finales
+   * @returns true si el evento completó el texto
+   */
+  private applyEvent(event: RecordedEvent): boolean {
+    const { signal, state } = event;
+    const position: TextPosition = {
+      blockIndex: signal.blockIndexInText,
+      wordIndex: signal.wordIndexInBlock,
+      letterIndex: signal.letterIndexInWord
+    };
+
+    if (signal.signalType === 'retreat') {
+      // Deshacer todo lo tecleado desde la posición del retroceso
+      while (this.history.length > 0 && this.compare(this.history[this.history.length - 1], position) >= 0) {
+        this.clearCharacter(this.getCharacterAt(this.history.pop()!));
+      }
+      this.clearCharacter(this.getCharacterAt(position));
+    } else {
+      const char = this.getCharacterAt(position);
+      const advanced = state.currentBlockIndex !== position.blockIndex
+        || state.currentWordIndex !== position.wordIndex
+        || state.currentLetterIndex !== position.letterIndex;
+
+      if (char) {
+        if (signal.isError) {
+          char.isError = true;
+          // Si el cursor siguió, el carácter muestra la tecla equivocada
+          if (advanced) char.typedValue = signal.typedCharacter;
+        } else {
+          char.isTyped = true;
+          char.isError = false;
+        }
+      }
+
+      if (advanced) this.history.push(position);
+    }
+
+    TypingSignals.emitKey(this.events, signal);
+    this.events.emit('stateChange', { ...state });
+
+    return TypingSignals.emitBoundaries(this.events, this.parsedText, signal, state);
+  }
+
+  /**
+   * Carácter tecleable en una posición (undefined si el texto cambió)
+   */
+  private getCharacterAt(position: TextPosition): Character | undefined {
+    const word = this.parsedText.blocks[position.blockIndex]?.words[position.wordIndex];
+    return word ? TextParser.getTypeableCharacters(word, this.strict)[position.letterIndex] : undefined;
+  }
+
+  /**
+   * Devuelve un carácter a su estado sin teclear
+   */
+  private clearCharacter(char: Character | undefined): void {
+    if (!char) return;
+    char.isTyped = false;
+    char.isError = false;
+    char.typedValue = undefined;
+  }
+
+  /**
+   * Compara dos posiciones en el orden del texto
+   */
+  private compare(a: TextPosition, b: TextPosition): number {
+    return (a.blockIndex - b.blockIndex) || (a.wordIndex - b.wordIndex) || (a.letterIndex - b.letterIndex);
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { AudioSignal, TextEntry, TypingState } from '../types';
+import { DEFAULT_AUDIO_CONFIG } from './AudioEngine';
+import { DEFAULT_TYPING_OPTIONS } from './KeyboardController';
+import { SessionRecorder } from './SessionRecorder';
+
+const ENTRY: TextEntry = {
+  id: 'sample',
+  fileName: 'sample.md',
+  metadata: { title: 'Sample', author: 'Anonymous', language: 'es' },
+  content: 'hola'
+};
+
+const SIGNAL: AudioSignal = {
+  wordIndexInBlock: 0,
+  totalWordsInBlock: 1,
+  letterIndexInWord: 0,
+  totalLettersInWord: 4,
+  blockIndexInText: 0,
+  totalBlocksInText: 1,
+  signalType: 'keystroke',
+  isError: false,
+  isEmphasized: false,
+  character: 'h',
+  characterClass: 'letter',
+  typedCharacter: 'h',
+  timestamp: 1000
+};
+
+const STATE: TypingState = {
+  currentBlockIndex: 0,
+  currentWordIndex: 0,
+  currentLetterIndex: 1,
+  isActive: true,
+  hasError: false,
+  totalErrors: 0
+};
+
+/**
+ * Archivo de sesión leído como JSON sin validar
+ */
+interface SessionFile {
+  audioConfig: unknown;
+  events: { signal?: Record<string, unknown>; state: Record<string, unknown> }[];
+}
+
+/**
+ * Graba una tecla y devuelve el archivo como objeto para poder estropearlo
+ */
+function createFile(): SessionFile {
+  const recorder = new SessionRecorder();
+  recorder.start(ENTRY, DEFAULT_AUDIO_CONFIG, DEFAULT_TYPING_OPTIONS);
+  recorder.recordSignal(SIGNAL);
+  recorder.recordState(STATE);
+  return JSON.parse(SessionRecorder.serialize(recorder.getRecording()!));
+}
+
+describe('SessionRecorder.parse', () => {
+  it('reads back a serialized recording', () => {
+    const file = createFile();
+    const recording = SessionRecorder.parse(JSON.stringify(file));
+
+    expect(recording.events).toEqual([{ signal: SIGNAL, state: STATE }]);
+    expect(recording.audioConfig).toEqual(DEFAULT_AUDIO_CONFIG);
+  });
+
+  it.each(['null', '3', '"x"', '[]'])('rejects %s as a session file', (json) => {
+    expect(() => SessionRecorder.parse(json)).toThrow('Invalid session file: unknown format');
+  });
+
+  it.each([
+    ['a missing signal', (file: SessionFile) => { delete file.events[0].signal; }],
+    ['a non-numeric time', (file: SessionFile) => { file.events[0].signal!.timestamp = '1000'; }],
+    ['an unknown signal type', (file: SessionFile) => { file.events[0].signal!.signalType = 'chord'; }],
+    ['a missing state field', (file: SessionFile) => { delete file.events[0].state.currentWordIndex; }]
+  ])('rejects an event with %s', (_, corrupt) => {
+    const file = createFile();
+    corrupt(file);
+
+    expect(() => SessionRecorder.parse(JSON.stringify(file))).toThrow('malformed event 1');
+  });
+
+  it('sanitizes the audio config like the saved preferences', () => {
+    const file = createFile();
+    file.audioConfig = { volume: 'loud', synthesisMode: 'unknown', quantizeSwing: 4, extra: true };
+
+    const recording = SessionRecorder.parse(JSON.stringify(file));
+
+    expect(recording.audioConfig).toEqual({ ...DEFAULT_AUDIO_CONFIG, quantizeSwing: 1 });
+  });
+
+  it('clamps the volume and the effect levels to the slider ranges', () => {
+    const file = createFile();
+    file.audioConfig = { ...DEFAULT_AUDIO_CONFIG, volume: 40, reverbAmount: 3, delayAmount: -1 };
+
+    const { audioConfig } = SessionRecorder.parse(JSON.stringify(file));
+
+    expect(audioConfig).toMatchObject({ volume: 0, reverbAmount: 1, delayAmount: 0 });
+  });
+});
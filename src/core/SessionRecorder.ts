@@ -0,0 +1,227 @@
+import type {
+  AudioConfig,
+  AudioSignal,
+  CharacterClass,
+  RecordedEvent,
+  SessionRecording,
+  SignalType,
+  TextEntry,
+  TypingOptions,
+  TypingState
+} from '../types';
+import { downloadBlob } from '../utils/download';
+import { PreferencesStore } from './PreferencesStore';
+import { TextParser } from './TextParser';
+
+/**
+ * Identificador y versión actual del formato de archivo
+ */
+const SESSION_FORMAT = 'keyboard-tale-session';
+const SESSION_FORMAT_VERSION = 1;
+
+/**
+ * Señales que se graban (los finales se derivan al reproducir)
+ */
+const RECORDED_SIGNAL_TYPES: readonly SignalType[] = ['keystroke', 'retreat'];
+
+/**
+ * Clases de carácter conocidas
+ */
+const CHARACTER_CLASSES: readonly CharacterClass[] = ['letter', 'digit', 'punctuation', 'symbol', 'space', 'lineBreak'];
+
+/**
+ * Campos numéricos y booleanos de cada evento grabado
+ */
+const SIGNAL_NUMBER_FIELDS: readonly (keyof AudioSignal)[] = [
+  'wordIndexInBlock', 'totalWordsInBlock', 'letterIndexInWord', 'totalLettersInWord',
+  'blockIndexInText', 'totalBlocksInText', 'timestamp'
+];
+const SIGNAL_BOOLEAN_FIELDS: readonly (keyof AudioSignal)[] = ['isError', 'isEmphasized'];
+const STATE_NUMBER_FIELDS: readonly (keyof TypingState)[] = [
+  'currentBlockIndex', 'currentWordIndex', 'currentLetterIndex', 'totalErrors'
+];
+const STATE_BOOLEAN_FIELDS: readonly (keyof TypingState)[] = ['isActive', 'hasError'];
+
+/**
+ * SessionRecorder
+ *
+ * Graba la secuencia completa de señales de una interpretación (incluidos
+ * errores y tiempos) junto con la identidad del texto y la configuración
+ * de audio, y la serializa a un archivo JSON versionado.
+ */
+export class SessionRecorder {
+  private recording: SessionRecording | null = null;
+  private pendingSignal: AudioSignal | null = null;
+
+  /**
+   * Empieza una grabación nueva para un texto
+   */
+  start(entry: TextEntry, audioConfig: AudioConfig, typingOptions: TypingOptions): void {
+    this.recording = {
+      format: SESSION_FORMAT,
+      version: SESSION_FORMAT_VERSION,
+      recordedAt: new Date().toISOString(),
+      text: {
+        id: entry.id,
+        title: entry.metadata.title,
+        hash: SessionRecorder.hashText(entry.content)
+      },
+      audioConfig: { ...audioConfig },
+      typingOptions: { ...typingOptions },
+      events: []
+    };
+    this.pendingSignal = null;
+  }
+
+  /**
+   * Detiene la grabación actual (los eventos posteriores se ignoran)
+   */
+  stop(): void {
+    this.recording = null;
+    this.pendingSignal = null;
+  }
+
+  /**
+   * Registra la señal de una tecla (queda pendiente hasta recibir su estado)
+   */
+  recordSignal(signal: AudioSignal): void {
+    if (!this.recording) return;
+
+    this.pendingSignal = { ...signal };
+  }
+
+  /**
+   * Registra el estado resultante de la última tecla.
+   * Los cambios de estado que no siguen a una tecla (start, stop, reset) se ignoran.
+   */
+  recordState(state: TypingState): void {
+    if (!this.recording || !this.pendingSignal) return;
+
+    const event: RecordedEvent = { signal: this.pendingSignal, state: { ...state } };
+    this.recording.events.push(event);
+    this.pendingSignal = null;
+  }
+
+  /**
+   * Obtiene la grabación actual (null si no hay grabación o está vacía)
+   */
+  getRecording(): SessionRecording | null {
+    if (!this.recording || this.recording.events.length === 0) return null;
+
+    return {
+      ...this.recording,
+      events: [...this.recording.events]
+    };
+  }
+
+  /**
+   * Descarga una grabación como archivo JSON
+   */
+  static download(recording: SessionRecording): void {
+    const blob = new Blob([this.serialize(recording)], { type: 'application/json' });
+    downloadBlob(blob, `${this.fileBaseName(recording)}.json`);
+  }
+
+  /**
+   * Nombre base de los archivos derivados de una grabación (texto + fecha)
+   */
+  static fileBaseName(recording: SessionRecording): string {
+    const date = recording.recordedAt.slice(0, 19).replace(/[:T]/g, '-');
+    return `${recording.text.id}-${date}`;
+  }
+
+  /**
+   * Serializa una grabación a JSON
+   */
+  static serialize(recording: SessionRecording): string {
+    return JSON.stringify(recording, null, 2);
+  }
+
+  /**
+   * Lee una grabación desde JSON, validando el formato y migrando versiones anteriores
+   */
+  static parse(json: string): SessionRecording {
+    let data: Partial<SessionRecording>;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Invalid session file: not valid JSON');
+    }
+
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new Error('Invalid session file: unknown format');
+    }
+
+    if (data.format !== SESSION_FORMAT || typeof data.version !== 'number') {
+      throw new Error('Invalid session file: unknown format');
+    }
+
+    if (data.version > SESSION_FORMAT_VERSION) {
+      throw new Error(`Unsupported session version ${data.version} (latest is ${SESSION_FORMAT_VERSION})`);
+    }
+
+    if (!data.text || !data.audioConfig || !Array.isArray(data.events)) {
+      throw new Error('Invalid session file: missing fields');
+    }
+
+    if (typeof data.text.id !== 'string' || typeof data.text.title !== 'string' || typeof data.text.hash !== 'string') {
+      throw new Error('Invalid session file: malformed text');
+    }
+
+    data.events.forEach((event, index) => {
+      if (!this.isValidEvent(event)) {
+        throw new Error(`Invalid session file: malformed event ${index + 1}`);
+      }
+    });
+
+    // Las migraciones entre versiones van aquí (solo existe la versión 1)
+    // Las grabaciones anteriores al modo estricto y a Backspace no guardan
+    // la clase del carácter ni el tipo de señal
+    data.events.forEach(({ signal }) => {
+      signal.characterClass ??= TextParser.classifyCharacter(signal.character);
+      signal.signalType ??= 'keystroke';
+    });
+
+    // La configuración se valida igual que las preferencias guardadas
+    data.audioConfig = PreferencesStore.sanitizeAudioConfig(data.audioConfig);
+    if (data.typingOptions !== undefined) {
+      data.typingOptions = PreferencesStore.sanitizeTypingOptions(data.typingOptions);
+    }
+
+    return data as SessionRecording;
+  }
+
+  /**
+   * Comprueba la forma de un evento leído (la clase del carácter y el tipo
+   * de señal pueden faltar en las grabaciones antiguas)
+   */
+  private static isValidEvent(value: unknown): value is RecordedEvent {
+    const { signal, state } = (value ?? {}) as Partial<Record<keyof RecordedEvent, Record<string, unknown>>>;
+    if (typeof signal !== 'object' || signal === null || typeof state !== 'object' || state === null) {
+      return false;
+    }
+
+    return SIGNAL_NUMBER_FIELDS.every(field => Number.isFinite(signal[field]))
+      && SIGNAL_BOOLEAN_FIELDS.every(field => typeof signal[field] === 'boolean')
+      && typeof signal.character === 'string'
+      && (signal.typedCharacter === undefined || typeof signal.typedCharacter === 'string')
+      && (signal.signalType === undefined || RECORDED_SIGNAL_TYPES.includes(signal.signalType as SignalType))
+      && (signal.characterClass === undefined || CHARACTER_CLASSES.includes(signal.characterClass as CharacterClass))
+      && STATE_NUMBER_FIELDS.every(field => Number.isFinite(state[field]))
+      && STATE_BOOLEAN_FIELDS.every(field => typeof state[field] === 'boolean');
+  }
+
+  /**
+   * Calcula una huella del texto (FNV-1a de 32 bits)
+   */
+  static hashText(text: string): string {
+    let hash = 0x811c9dc5;
+
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }
+}
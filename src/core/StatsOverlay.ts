@@ -0,0 +1,246 @@
+import type { TypingStatsSnapshot, KeyLatency, GameSummary } from '../types';
+import { formatDuration, formatPercent } from '../utils/format';
+
+/**
+ * Botón adicional de la pantalla de resumen
+ */
+export interface SummaryAction {
+  label: string;
+  onClick: () => void;
+}
+
+/**
+ * Cuántas entradas mostrar en las listas de latencias y errores
+ */
+const TOP_ENTRIES = 5;
+
+/**
+ * StatsOverlay
+ *
+ * Muestra las estadísticas de tecleado:
+ * - Panel en vivo (WPM, precisión, errores), alternable con 'Ctrl+S'
+ * - Pantalla de resumen al terminar la partida (definida por el modo de juego)
+ * - Línea de estado del modo de juego (p. ej. la cuenta atrás del sprint)
+ */
+export class StatsOverlay {
+  private panel: HTMLElement;
+  private summary: HTMLElement;
+  private status: HTMLElement;
+  private isVisible: boolean = false;
+  private onSummaryClose: (() => void) | null = null;
+
+  constructor() {
+    this.panel = document.createElement('div');
+    this.panel.id = 'stats-overlay';
+    this.panel.className = 'stats-overlay hidden';
+    document.body.appendChild(this.panel);
+
+    this.summary = document.createElement('div');
+    this.summary.id = 'stats-summary';
+    this.summary.className = 'stats-summary hidden';
+    this.summary.addEventListener('click', () => this.closeSummary());
+    document.body.appendChild(this.summary);
+
+    this.status = document.createElement('div');
+    this.status.id = 'game-status';
+    this.status.className = 'game-status hidden';
+    document.body.appendChild(this.status);
+
+    document.addEventListener('keydown', (e) => {
+      // Alternar el panel con Ctrl+S (o Cmd+S en Mac)
+      if ((e.key === 's' || e.key === 'S') && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault(); // Prevenir el diálogo de guardar
+        this.toggle();
+        return;
+      }
+
+      // Cerrar el resumen con Enter o Escape
+      if (this.onSummaryClose && (e.key === 'Enter' || e.key === 'Escape')) {
+        e.preventDefault();
+        this.closeSummary();
+      }
+    });
+  }
+
+  /**
+   * Actualiza el panel en vivo (solo si está visible)
+   */
+  update(snapshot: TypingStatsSnapshot): void {
+    if (!this.isVisible) return;
+
+    this.panel.innerHTML = `
+      <div class="stats-row"><span>WPM</span><span class="stats-value">${Math.round(snapshot.wpm)}</span></div>
+      <div class="stats-row"><span>CPM</span><span class="stats-value">${Math.round(snapshot.cpm)}</span></div>
+      <div class="stats-row"><span>Accuracy</span><span class="stats-value">${formatPercent(snapshot.accuracy)}</span></div>
+      <div class="stats-row"><span>Errors</span><span class="stats-value">${snapshot.errors}</span></div>
+      <div class="stats-row"><span>Time</span><span class="stats-value">${formatDuration(snapshot.elapsedMs)}</span></div>
+    `;
+  }
+
+  /**
+   * Muestra la pantalla de resumen
+   * @param summary Título, datos destacados y secciones según el modo de juego
+   * @param onClose Se llama al cerrar el resumen (click, Enter o Escape)
+   * @param actions Botones adicionales (p. ej. descargar la grabación)
+   */
+  showSummary(
+    snapshot: TypingStatsSnapshot,
+    summary: GameSummary,
+    onClose: () => void,
+    actions: SummaryAction[] = []
+  ): void {
+    this.onSummaryClose = onClose;
+
+    const blocks = snapshot.blockDurations
+      .map((duration, index) => `<li>Block ${index + 1}: ${formatDuration(duration)}</li>`)
+      .join('');
+
+    const hotspots = snapshot.errorHotspots
+      .slice(0, TOP_ENTRIES)
+      .map(hotspot => `<li>${this.escape(this.formatKey(hotspot.character))} × ${hotspot.errors}</li>`)
+      .join('');
+
+    this.summary.innerHTML = `
+      <div class="stats-summary-panel">
+        <h2>${this.escape(summary.title)}</h2>
+        <div class="stats-summary-main">
+          ${summary.highlights.map(highlight => `
+            <div><span class="stats-value">${this.escape(highlight.value)}</span> ${this.escape(highlight.label)}</div>
+          `).join('')}
+        </div>
+        <div class="stats-summary-columns">
+          <section>
+            <h3>Slowest letters</h3>
+            <ul>${this.formatLatencies(snapshot.letterLatencies)}</ul>
+          </section>
+          <section>
+            <h3>Slowest bigrams</h3>
+            <ul>${this.formatLatencies(snapshot.bigramLatencies)}</ul>
+          </section>
+          ${summary.showErrors ? `
+            <section>
+              <h3>Most missed</h3>
+              <ul>${hotspots || '<li>None</li>'}</ul>
+            </section>
+          ` : ''}
+          ${summary.showBlocks ? `
+            <section>
+              <h3>Blocks</h3>
+              <ul>${blocks}</ul>
+            </section>
+          ` : ''}
+        </div>
+        <div class="stats-summary-actions">
+          ${actions.map((action, index) => `<button class="stats-summary-action" data-index="${index}">${this.escape(action.label)}</button>`).join('')}
+        </div>
+        <p class="stats-summary-status hidden"></p>
+        <p class="hint">Press Enter to continue</p>
+      </div>
+    `;
+
+    this.summary.querySelectorAll<HTMLButtonElement>('.stats-summary-action').forEach(button => {
+      button.addEventListener('click', (e) => {
+        // No cerrar el resumen al usar una acción
+        e.stopPropagation();
+        actions[Number(button.dataset.index)].onClick();
+      });
+    });
+
+    this.summary.classList.remove('hidden');
+  }
+
+  /**
+   * Cierra la pantalla de resumen
+   */
+  closeSummary(): void {
+    if (!this.onSummaryClose) return;
+
+    const onClose = this.onSummaryClose;
+    this.onSummaryClose = null;
+    this.summary.classList.add('hidden');
+    onClose();
+  }
+
+  /**
+   * Indica si el resumen está visible
+   */
+  isSummaryOpen(): boolean {
+    return this.onSummaryClose !== null;
+  }
+
+  /**
+   * Muestra el estado de una acción del resumen (null para ocultarlo)
+   * @param isError Resalta el texto como error
+   */
+  setSummaryStatus(text: string | null, isError: boolean = false): void {
+    const status = this.summary.querySelector<HTMLElement>('.stats-summary-status');
+    if (!status) return;
+
+    status.textContent = text ?? '';
+    status.classList.toggle('hidden', text === null);
+    status.classList.toggle('error', isError);
+  }
+
+  /**
+   * Muestra la línea de estado del modo de juego (null para ocultarla)
+   */
+  setStatus(text: string | null): void {
+    this.status.textContent = text ?? '';
+    this.status.classList.toggle('hidden', text === null);
+  }
+
+  /**
+   * Muestra el panel en vivo
+   */
+  show(): void {
+    this.panel.classList.remove('hidden');
+    this.isVisible = true;
+  }
+
+  /**
+   * Oculta el panel en vivo
+   */
+  hide(): void {
+    this.panel.classList.add('hidden');
+    this.isVisible = false;
+  }
+
+  /**
+   * Alterna visibilidad del panel en vivo
+   */
+  toggle(): void {
+    if (this.isVisible) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  /**
+   * Formatea una lista de latencias
+   */
+  private formatLatencies(latencies: KeyLatency[]): string {
+    if (latencies.length === 0) return '<li>None</li>';
+
+    return latencies
+      .slice(0, TOP_ENTRIES)
+      .map(latency => `<li>${this.escape(this.formatKey(latency.key))} ${Math.round(latency.averageMs)} ms</li>`)
+      .join('');
+  }
+
+  /**
+   * Hace visibles el espacio y el salto de línea (modo estricto)
+   */
+  private formatKey(key: string): string {
+    return key.replace(/ /g, '␣').replace(/\n/g, '↵');
+  }
+
+  /**
+   * Escapa texto para insertarlo en el HTML
+   */
+  private escape(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -0,0 +1,90 @@
+import type * as Tone from 'tone';
+import type { AudioConfig, AudioSignal, SynthesisMode } from '../types';
+
+/**
+ * Lo que recibe un modo al crear sus nodos: el contexto del motor
+ * (en vivo u offline) y el nodo al que debe conectar su salida
+ */
+export interface SynthesisModeOptions {
+  context: Tone.BaseContext;
+  output: Tone.InputNode;
+}
+
+/**
+ * Instancia de un modo dentro de un AudioEngine, dueña de sus nodos de Tone
+ */
+export interface SynthesisModeVoice {
+  /**
+   * Toca una tecla correcta
+   * @param config Configuración efectiva (usuario + pistas del bloque)
+   */
+  play(signal: AudioSignal, velocity: number, time: number, config: AudioConfig): void;
+
+  /**
+   * Carga lo que el modo necesite antes de tocar (p. ej. sus muestras).
+   * Opcional; no debe fallar: mientras no esté listo, el modo suena como pueda.
+   */
+  prepare?(config: AudioConfig): Promise<void>;
+
+  /**
+   * Frecuencia (Hz) de la nota con la que sonaría una señal (el error
+   * 'detuned' la repite desafinada). Opcional; sin ella se usa la escala
+   * de la configuración.
+   */
+  getFrequency?(signal: AudioSignal, config: AudioConfig): number;
+
+  dispose(): void;
+}
+
+/**
+ * Modo de síntesis registrable: identificador, nombre visible y
+ * cómo construir sus nodos para un contexto de audio concreto
+ */
+export interface SynthesisModeDefinition {
+  id: SynthesisMode;
+  label: string;
+  hue?: number; // Tono (0-360) de los efectos visuales del modo
+  create(options: SynthesisModeOptions): SynthesisModeVoice;
+}
+
+/**
+ * SynthesisModeRegistry
+ *
+ * Catálogo de modos de síntesis. Los modos se registran al arrancar
+ * (ver modes/index.ts) y el AudioEngine y el AudioUI los consultan aquí,
+ * así que añadir un sonido no requiere tocar ninguno de los dos.
+ */
+export class SynthesisModeRegistry {
+  private static modes = new Map<SynthesisMode, SynthesisModeDefinition>();
+
+  /**
+   * Registra un modo (el identificador no puede repetirse)
+   */
+  static register(definition: SynthesisModeDefinition): void {
+    if (this.modes.has(definition.id)) {
+      throw new Error(`Synthesis mode already registered: ${definition.id}`);
+    }
+    this.modes.set(definition.id, definition);
+  }
+
+  /**
+   * Obtiene un modo por su identificador
+   */
+  static get(id: SynthesisMode): SynthesisModeDefinition | undefined {
+    return this.modes.get(id);
+  }
+
+  /**
+   * Indica si un modo está registrado
+   */
+  static has(id: SynthesisMode): boolean {
+    return this.modes.has(id);
+  }
+
+  /**
+   * Obtiene todos los modos en orden de registro
+   */
+  static getAll(): SynthesisModeDefinition[] {
+    return Array.from(this.modes.values());
+  }
+}
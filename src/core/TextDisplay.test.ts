@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { TypingEventMap } from '../types';
+import { EventBus } from './EventBus';
+import { KeyboardController } from './KeyboardController';
+import { TextDisplay } from './TextDisplay';
+import { TextParser } from './TextParser';
+
+const WORDS = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do'];
+
+/**
+ * Texto sintético: bloques de 10 líneas de 10 palabras
+ */
+function createText(wordCount: number): string {
+  const blocks: string[] = [];
+  for (let start = 0; start < wordCount; start += 100) {
+    const lines: string[] = [];
+    for (let line = start; line < Math.min(start + 100, wordCount); line += 10) {
+      const count = Math.min(10, wordCount - line);
+      lines.push(Array.from({ length: count }, (_, i) => WORDS[(line + i) % WORDS.length]).join(' '));
+    }
+    blocks.push(lines.join('\n'));
+  }
+  return blocks.join('\n\n');
+}
+
+/**
+ * Teclea las primeras letras de un texto (con un error cada 7 teclas) y
+ * devuelve cuántos cambios de clase o texto hace la pantalla en cada tecla
+ */
+function countMutationsPerKey(wordCount: number, keystrokes: number): number[] {
+  const parsedText = TextParser.parse(createText(wordCount));
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+
+  const events = new EventBus<TypingEventMap>();
+  const display = new TextDisplay(container, parsedText);
+  const controller = new KeyboardController(parsedText, events, { errorPolicy: 'stop' });
+  events.on('stateChange', state => display.updateState(state));
+  display.render();
+  controller.start();
+
+  const observer = new MutationObserver(() => {});
+  observer.observe(container, { attributes: true, characterData: true, childList: true, subtree: true });
+
+  const letters = parsedText.blocks.flatMap(block =>
+    block.words.flatMap(word => TextParser.getLettersOnly(word).map(char => char.char))
+  );
+
+  const counts: number[] = [];
+  for (let i = 0; i < keystrokes; i++) {
+    if (i % 7 === 0) {
+      controller.handleKeyPress('#');
+    }
+    controller.handleKeyPress(letters[i]);
+    counts.push(observer.takeRecords().length);
+  }
+
+  observer.disconnect();
+  return counts;
+}
+
+describe('TextDisplay', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('only touches the changed spans on a 10k-word text', () => {
+    const keystrokes = 2000; // Cruza varios finales de palabra, línea y bloque
+    const large = countMutationsPerKey(10000, keystrokes);
+    const small = countMutationsPerKey(500, keystrokes);
+
+    // El trabajo por tecla no depende de la longitud del texto
+    expect(large).toEqual(small);
+
+    // Solo cambian el carácter anterior, el actual y el espacio entre palabras
+    // (al cambiar de bloque, además, se añade el bloque nuevo)
+    expect(Math.max(...large)).toBeLessThanOrEqual(8);
+  });
+});
@@ -1,4 +1,34 @@
-import type { ParsedText, TypingState, Block } from '../types';
+import type { ParsedText, TypingState, Block, Word, Character, TextDisplayOptions, TextPosition } from '../types';
+import { TextParser } from './TextParser';
+import type { ViewportManager } from './ViewportManager';
+
+/**
+ * Elementos de una palabra ya construidos en el DOM
+ */
+interface WordView {
+  word: Word;
+  typeable: Character[];
+  lastTypeableIndex: number;      // Último carácter tecleable (para la puntuación que se rellena sola)
+  characters: HTMLElement[];      // Mismo índice que word.characters
+  separator: HTMLElement | null;  // Espacio o salto de línea tras la palabra
+}
+
+/**
+ * Elementos de un bloque ya construidos en el DOM
+ */
+interface BlockView {
+  element: HTMLElement;
+  words: WordView[];              // Mismo índice que block.words
+}
+
+/**
+ * Estados visuales de un carácter (clases CSS)
+ */
+interface CharacterState {
+  typed: boolean;
+  error: boolean;
+  current: boolean;
+}
 
 /**
  * TextDisplay
@@ -7,152 +37,259 @@ import type { ParsedText, TypingState, Block } from '../types';
  * según el estado del tecleado.
  *
  * Muestra todos los bloques (completos + el actual) sin borrar los anteriores.
+ * En modo estricto los espacios, la puntuación y los saltos de línea también
+ * se marcan como actual, tecleado o error. Si el cursor siguió tras un error,
+ * se muestra la tecla que realmente se pulsó. En el modo a ciegas lo que
+ * queda por teclear se oculta (solo se ve el carácter actual).
+ *
+ * Los spans de cada bloque se construyen una sola vez: en cada tecla solo se
+ * actualizan las palabras entre la posición anterior y la nueva del cursor,
+ * cambiando las clases que difieren (así las transiciones CSS no se cortan).
+ * El desplazamiento para seguir al cursor lo hace el ViewportManager.
  */
 export class TextDisplay {
   private container: HTMLElement;
   private parsedText: ParsedText;
   private currentState: TypingState;
+  private strict: boolean;
+  private hideUpcoming: boolean;
+  private blockViews: (BlockView | undefined)[] = [];
+  private wordOffsets: number[];
+  private viewport: ViewportManager | null;
 
-  constructor(container: HTMLElement, parsedText: ParsedText) {
+  constructor(
+    container: HTMLElement,
+    parsedText: ParsedText,
+    options: Partial<TextDisplayOptions> = {},
+    viewport: ViewportManager | null = null
+  ) {
     this.container = container;
+    this.viewport = viewport;
     this.parsedText = parsedText;
-    this.currentState = {
-      currentBlockIndex: 0,
-      currentWordIndex: 0,
-      currentLetterIndex: 0,
-      isActive: false,
-      hasError: false,
-      totalErrors: 0
-    };
+    this.strict = options.strict ?? false;
+    this.hideUpcoming = options.hideUpcoming ?? false;
+    this.currentState = this.createInitialState();
+
+    // Índice global de la primera palabra de cada bloque (para comparar posiciones)
+    this.wordOffsets = [];
+    let offset = 0;
+    parsedText.blocks.forEach(block => {
+      this.wordOffsets.push(offset);
+      offset += block.words.length;
+    });
+    this.wordOffsets.push(offset);
   }
 
   /**
-   * Renderiza todos los bloques (completos y el actual)
+   * Renderiza desde cero todos los bloques visibles (completos y el actual)
    */
   render(): void {
     this.container.innerHTML = '';
+    this.blockViews = [];
 
-    if (this.currentState.currentBlockIndex >= this.parsedText.blocks.length) {
-      this.renderComplete();
-      return;
+    const lastVisible = this.getLastVisibleBlock();
+    for (let blockIndex = 0; blockIndex <= lastVisible; blockIndex++) {
+      const view = this.getBlockView(blockIndex);
+      this.container.appendChild(view.element);
+      this.refreshBlock(blockIndex);
+      view.words.forEach((_, wordIndex) => this.refreshWord(blockIndex, wordIndex));
     }
 
-    // Renderizar todos los bloques hasta el actual (inclusive)
-    for (let blockIndex = 0; blockIndex <= this.currentState.currentBlockIndex; blockIndex++) {
-      const block = this.parsedText.blocks[blockIndex];
-      const isCurrentBlock = blockIndex === this.currentState.currentBlockIndex;
+    this.viewport?.follow(this.getCurrentElement(), lastVisible, true);
+  }
 
-      this.renderBlock(block, blockIndex, isCurrentBlock);
-    }
+  /**
+   * Construye los spans de un bloque (una sola vez) y los guarda en el índice
+   */
+  private getBlockView(blockIndex: number): BlockView {
+    const existing = this.blockViews[blockIndex];
+    if (existing) return existing;
+
+    const block = this.parsedText.blocks[blockIndex];
+    const view = this.buildBlock(block);
+    this.blockViews[blockIndex] = view;
+    return view;
   }
 
   /**
-   * Renderiza un bloque completo con sus líneas
+   * Crea el elemento de un bloque con sus líneas
    */
-  private renderBlock(block: Block, _blockIndex: number, isCurrentBlock: boolean): void {
+  private buildBlock(block: Block): BlockView {
     const blockDiv = document.createElement('div');
     blockDiv.className = 'block';
-    if (!isCurrentBlock) {
-      blockDiv.classList.add('completed');
+
+    // Conservar las líneas en blanco extra del texto original
+    if (block.spacingBefore > 0) {
+      blockDiv.style.setProperty('--spacing-before', String(block.spacingBefore));
     }
 
-    // Índice global de palabra en el bloque (para tracking)
-    let globalWordIndex = 0;
+    const words: WordView[] = [];
 
     block.lines.forEach((line) => {
       const lineDiv = document.createElement('div');
       lineDiv.className = 'line';
 
+      // Pausa marcada al final de la línea
+      if (line.pauseAfter > 0) {
+        lineDiv.style.setProperty('--pause-after', String(line.pauseAfter));
+      }
+
       line.words.forEach((word, wordIndexInLine) => {
         const wordSpan = document.createElement('span');
         wordSpan.className = 'word';
-
-        // Determinar si esta palabra está en el pasado, presente o futuro
-        const isCurrentWord = isCurrentBlock && globalWordIndex === this.currentState.currentWordIndex;
-        const isPastWord = !isCurrentBlock || (isCurrentBlock && globalWordIndex < this.currentState.currentWordIndex);
-
-        // Encontrar el índice de la última letra en la palabra (para puntuación)
-        let lastLetterInWordIndex = -1;
-        for (let i = word.characters.length - 1; i >= 0; i--) {
-          if (word.characters[i].isLetter) {
-            lastLetterInWordIndex = i;
-            break;
-          }
+        if (word.isEmphasized) {
+          wordSpan.classList.add('emphasis');
         }
 
-        // Contador de letras (solo letras, sin puntuación) en esta palabra
-        let letterIndexInWord = 0;
+        // Caracteres que se teclean en esta palabra
+        const typeable = TextParser.getTypeableCharacters(word, this.strict);
+        let lastTypeableIndex = -1;
+        word.characters.forEach((char, index) => {
+          if (typeable.includes(char)) lastTypeableIndex = index;
+        });
 
-        word.characters.forEach((char, charIndex) => {
+        const characters = word.characters.map(char => {
           const charSpan = document.createElement('span');
-
-          if (char.isLetter) {
-            charSpan.className = 'letter';
-
-            // Determinar el estado del carácter basado en char.isTyped
-            if (char.isTyped) {
-              charSpan.classList.add('typed');
-            } else if (char.isError) {
-              charSpan.classList.add('error');
-            }
-
-            // Marcar el carácter actual (la letra que se debe escribir ahora)
-            if (isCurrentWord && letterIndexInWord === this.currentState.currentLetterIndex) {
-              charSpan.classList.add('current');
-            }
-
-            letterIndexInWord++;
-          } else {
-            // Signos de puntuación
-            charSpan.className = 'punctuation';
-
-            // La puntuación se marca como "typed" solo si:
-            // - La palabra ya fue completada (isPastWord)
-            // - O si la última letra de la palabra actual ya fue tecleada
-            if (isPastWord) {
-              charSpan.classList.add('typed');
-            } else if (isCurrentWord && charIndex > lastLetterInWordIndex && word.characters[lastLetterInWordIndex]?.isTyped) {
-              charSpan.classList.add('typed');
-            }
-          }
-
+          charSpan.className = char.isLetter ? 'letter' : 'punctuation';
           charSpan.textContent = char.char;
           wordSpan.appendChild(charSpan);
+          return charSpan;
         });
 
         lineDiv.appendChild(wordSpan);
 
-        // Agregar espacio entre palabras en la misma línea
+        let separator: HTMLElement | null = null;
         if (wordIndexInLine < line.words.length - 1) {
-          const space = document.createElement('span');
-          space.className = 'space';
-
-          // El espacio se marca como typed si la palabra anterior está completa
-          if (isPastWord) {
-            space.classList.add('typed');
-          }
-
-          space.textContent = ' ';
-          lineDiv.appendChild(space);
+          // Espacio entre palabras en la misma línea
+          separator = document.createElement('span');
+          separator.className = 'space';
+          separator.textContent = ' ';
+          lineDiv.appendChild(separator);
+        } else if (this.strict && word.separator) {
+          // Salto de línea que hay que teclear con Enter
+          separator = document.createElement('span');
+          separator.className = 'line-break';
+          separator.textContent = '↵';
+          lineDiv.appendChild(separator);
         }
 
-        globalWordIndex++;
+        words.push({ word, typeable, lastTypeableIndex, characters, separator });
       });
 
       blockDiv.appendChild(lineDiv);
     });
 
-    this.container.appendChild(blockDiv);
+    return { element: blockDiv, words };
   }
 
   /**
-   * Renderiza el mensaje de completado (sin mensaje, solo los bloques)
+   * Actualiza las clases de los caracteres de una palabra según el estado actual
    */
-  private renderComplete(): void {
-    // Renderizar todos los bloques completos
-    this.parsedText.blocks.forEach((block, blockIndex) => {
-      this.renderBlock(block, blockIndex, false);
+  private refreshWord(blockIndex: number, wordIndex: number): void {
+    const view = this.blockViews[blockIndex]?.words[wordIndex];
+    if (!view) return;
+
+    const { word, typeable, lastTypeableIndex } = view;
+    const state = this.currentState;
+
+    // Determinar si esta palabra está en el pasado, presente o futuro
+    const isCurrentBlock = blockIndex === state.currentBlockIndex;
+    const isCurrentWord = isCurrentBlock && wordIndex === state.currentWordIndex;
+    const isPastWord = blockIndex < state.currentBlockIndex || (isCurrentBlock && wordIndex < state.currentWordIndex);
+    const currentChar = isCurrentWord ? typeable[state.currentLetterIndex] : undefined;
+
+    word.characters.forEach((char, charIndex) => {
+      const span = view.characters[charIndex];
+
+      if (typeable.includes(char)) {
+        this.applyCharState(span, this.getCharState(char, char === currentChar));
+        this.setText(span, this.getDisplayText(char));
+      } else {
+        // Puntuación que se rellena sola. Se marca como "typed" solo si:
+        // - La palabra ya fue completada (isPastWord)
+        // - O si la última letra de la palabra actual ya fue tecleada
+        const typed = isPastWord
+          || (isCurrentWord && charIndex > lastTypeableIndex && !!word.characters[lastTypeableIndex]?.isTyped);
+        this.applyCharState(span, { typed, error: false, current: false });
+      }
     });
+
+    if (!view.separator) return;
+
+    if (this.strict && word.separator) {
+      this.applyCharState(view.separator, this.getCharState(word.separator, word.separator === currentChar));
+      this.setText(view.separator, this.getDisplayText(word.separator, view.separator.classList.contains('space') ? ' ' : '↵'));
+    } else {
+      // El espacio se marca como typed si la palabra anterior está completa
+      this.applyCharState(view.separator, { typed: isPastWord, error: false, current: false });
+    }
+  }
+
+  /**
+   * Estado visual de un carácter tecleable
+   */
+  private getCharState(char: Character, isCurrent: boolean): CharacterState {
+    return {
+      typed: char.isTyped,
+      error: !char.isTyped && char.isError,
+      current: isCurrent
+    };
+  }
+
+  /**
+   * Marca un carácter como tecleado, error o actual (solo cambia las clases que difieren).
+   * En el modo a ciegas oculta lo que aún no se ha tecleado.
+   */
+  private applyCharState(span: HTMLElement, state: CharacterState): void {
+    span.classList.toggle('typed', state.typed);
+    span.classList.toggle('error', state.error);
+    span.classList.toggle('current', state.current);
+
+    if (this.hideUpcoming) {
+      span.classList.toggle('concealed', !state.typed && !state.error && !state.current);
+    }
+  }
+
+  /**
+   * Cambia el texto de un span solo si es distinto
+   */
+  private setText(span: HTMLElement, text: string): void {
+    if (span.textContent !== text) {
+      span.textContent = text;
+    }
+  }
+
+  /**
+   * Texto a mostrar para un carácter: la tecla equivocada si el cursor
+   * siguió tras el error (políticas 'advance' y 'free')
+   */
+  private getDisplayText(char: Character, text: string = char.char): string {
+    if (!char.isError || char.typedValue === undefined) return text;
+    if (char.typedValue === '\n') return '↵';
+    return char.typedValue === ' ' ? '·' : char.typedValue;
+  }
+
+  /**
+   * Marca un bloque como completo o actual
+   */
+  private refreshBlock(blockIndex: number): void {
+    this.blockViews[blockIndex]?.element.classList.toggle('completed', blockIndex < this.currentState.currentBlockIndex);
+  }
+
+  /**
+   * Último bloque visible: el actual, o el último si el texto está completo
+   */
+  private getLastVisibleBlock(): number {
+    return Math.min(this.currentState.currentBlockIndex, this.parsedText.blocks.length - 1);
+  }
+
+  /**
+   * Posición del cursor como índice global de palabra
+   */
+  private getGlobalWordIndex(state: TypingState): number {
+    const blockIndex = Math.min(state.currentBlockIndex, this.parsedText.blocks.length);
+    const offset = this.wordOffsets[blockIndex];
+    return blockIndex < this.parsedText.blocks.length ? offset + state.currentWordIndex : offset;
   }
 
   /**
@@ -163,18 +300,112 @@ export class TextDisplay {
   }
 
   /**
-   * Actualiza el estado y re-renderiza
+   * Actualiza el estado y refresca solo las palabras que pueden haber cambiado:
+   * las que hay entre la posición anterior y la nueva del cursor
    */
   updateState(state: TypingState): void {
+    const previous = this.currentState;
     this.currentState = state;
-    this.render();
+
+    // Mostrar u ocultar bloques si el cursor cambió de bloque (también al retroceder)
+    const previousLastVisible = Math.min(previous.currentBlockIndex, this.parsedText.blocks.length - 1);
+    const lastVisible = this.getLastVisibleBlock();
+    if (lastVisible !== previousLastVisible || state.currentBlockIndex !== previous.currentBlockIndex) {
+      for (let blockIndex = 0; blockIndex <= Math.max(lastVisible, previousLastVisible); blockIndex++) {
+        if (blockIndex <= lastVisible) {
+          const view = this.getBlockView(blockIndex);
+          if (!view.element.isConnected) {
+            this.container.appendChild(view.element);
+            view.words.forEach((_, wordIndex) => this.refreshWord(blockIndex, wordIndex));
+          }
+        } else {
+          this.blockViews[blockIndex]?.element.remove();
+        }
+        this.refreshBlock(blockIndex);
+      }
+    }
+
+    // Palabras entre la posición anterior y la nueva (ambas incluidas)
+    const from = Math.min(this.getGlobalWordIndex(previous), this.getGlobalWordIndex(state));
+    const to = Math.max(this.getGlobalWordIndex(previous), this.getGlobalWordIndex(state));
+    this.forEachWord(from, to, (blockIndex, wordIndex) => this.refreshWord(blockIndex, wordIndex));
+
+    // Repetir la sacudida del error aunque el carácter ya estuviera marcado
+    if (state.totalErrors > previous.totalErrors) {
+      this.restartErrorAnimation();
+    }
+
+    this.viewport?.follow(this.getCurrentElement(), lastVisible);
+  }
+
+  /**
+   * Recorre las palabras visibles entre dos índices globales (ambos incluidos)
+   */
+  private forEachWord(from: number, to: number, callback: (blockIndex: number, wordIndex: number) => void): void {
+    const lastVisible = this.getLastVisibleBlock();
+
+    for (let blockIndex = 0; blockIndex <= lastVisible; blockIndex++) {
+      const start = this.wordOffsets[blockIndex];
+      const end = this.wordOffsets[blockIndex + 1] - 1;
+      if (end < from || start > to) continue;
+
+      for (let global = Math.max(from, start); global <= Math.min(to, end); global++) {
+        callback(blockIndex, global - start);
+      }
+    }
+  }
+
+  /**
+   * Vuelve a lanzar la animación del error en el carácter actual
+   */
+  private restartErrorAnimation(): void {
+    const current = this.getCurrentElement();
+    if (!current?.classList.contains('error')) return;
+
+    current.classList.remove('error');
+    void current.offsetWidth; // Forzar reflow para reiniciar la animación
+    current.classList.add('error');
+  }
+
+  /**
+   * Elemento del carácter que se debe escribir ahora (null si el texto está completo)
+   */
+  private getCurrentElement(): HTMLElement | null {
+    const state = this.currentState;
+    return this.getElementAt({
+      blockIndex: state.currentBlockIndex,
+      wordIndex: state.currentWordIndex,
+      letterIndex: state.currentLetterIndex
+    });
+  }
+
+  /**
+   * Elemento de un carácter tecleable (letterIndex cuenta solo los tecleables,
+   * como en las señales); null si su bloque aún no se ha mostrado
+   */
+  getElementAt(position: TextPosition): HTMLElement | null {
+    const view = this.blockViews[position.blockIndex]?.words[position.wordIndex];
+    const char = view?.typeable[position.letterIndex];
+    if (!view || !char) return null;
+
+    return char === view.word.separator ? view.separator : view.characters[view.word.characters.indexOf(char)];
   }
 
   /**
    * Reinicia la visualización
    */
   reset(): void {
-    this.currentState = {
+    this.currentState = this.createInitialState();
+    // Remover la clase de fade
+    this.container.classList.remove('fade-to-black');
+    this.render();
+  }
+
+  /**
+   * Estado inicial: cursor al principio del texto
+   */
+  private createInitialState(): TypingState {
+    return {
       currentBlockIndex: 0,
       currentWordIndex: 0,
       currentLetterIndex: 0,
@@ -182,8 +413,5 @@ export class TextDisplay {
       hasError: false,
       totalErrors: 0
     };
-    // Remover la clase de fade
-    this.container.classList.remove('fade-to-black');
-    this.render();
   }
 }
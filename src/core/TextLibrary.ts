@@ -0,0 +1,92 @@
+import type { TextEntry } from '../types';
+import { TextParser } from './TextParser';
+
+/**
+ * Todos los archivos de texto del directorio de datos, cargados como raw strings.
+ * Vite resuelve el glob en tiempo de build, así que basta con añadir un archivo
+ * a src/data/texts/ para que aparezca en el catálogo.
+ */
+const textFiles = import.meta.glob<string>('../data/texts/*.txt', {
+  query: '?raw',
+  import: 'default',
+  eager: true
+});
+
+/**
+ * Texto que se selecciona por defecto
+ */
+const DEFAULT_TEXT_ID = 'tale';
+
+/**
+ * TextLibrary
+ *
+ * Catálogo de textos disponibles. Descubre todos los archivos de
+ * src/data/texts/ y expone sus metadatos (título, autor, idioma).
+ * Los metadatos se leen de la cabecera del texto; si no la tiene,
+ * se derivan del nombre del archivo.
+ */
+export class TextLibrary {
+  private static entries: TextEntry[] | null = null;
+
+  /**
+   * Obtiene todas las entradas del catálogo, ordenadas por título
+   */
+  static getAll(): TextEntry[] {
+    if (!this.entries) {
+      this.entries = Object.entries(textFiles)
+        .map(([path, content]) => this.createEntry(path, content))
+        .sort((a, b) => a.metadata.title.localeCompare(b.metadata.title));
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * Obtiene una entrada por su identificador
+   */
+  static get(id: string): TextEntry | null {
+    return this.getAll().find(entry => entry.id === id) ?? null;
+  }
+
+  /**
+   * Obtiene la entrada por defecto (o la primera disponible)
+   */
+  static getDefault(): TextEntry {
+    const entry = this.get(DEFAULT_TEXT_ID) ?? this.getAll()[0];
+    if (!entry) {
+      throw new Error('No texts found in src/data/texts/');
+    }
+    return entry;
+  }
+
+  /**
+   * Crea una entrada del catálogo a partir de la ruta y el contenido del archivo
+   */
+  private static createEntry(path: string, content: string): TextEntry {
+    const fileName = path.split('/').pop() ?? path;
+    const id = fileName.replace(/\.[^.]+$/, '');
+    const frontMatter = TextParser.parseFrontMatter(content);
+
+    return {
+      id,
+      fileName,
+      metadata: {
+        title: frontMatter.title ?? this.titleFromId(id),
+        author: frontMatter.author ?? 'Unknown',
+        language: frontMatter.language ?? 'en'
+      },
+      content
+    };
+  }
+
+  /**
+   * Deriva un título legible del nombre del archivo ("my_poem" -> "My Poem")
+   */
+  private static titleFromId(id: string): string {
+    return id
+      .split(/[-_\s]+/)
+      .filter(part => part.length > 0)
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join(' ');
+  }
+}
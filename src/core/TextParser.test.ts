@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { TextParser } from './TextParser';
+
+describe('TextParser', () => {
+  it('keeps lines that start with an unknown @word as text', () => {
+    const parsed = TextParser.parse('---\ntitle: Hints\n---\n@reverb: 0.8\n@everyone hello\nworld');
+    const [block] = parsed.blocks;
+
+    expect(block.audioHints).toEqual({ reverbAmount: 0.8 });
+    expect(block.lines.map(line => line.words.map(word => word.originalText))).toEqual([
+      ['@everyone', 'hello'],
+      ['world']
+    ]);
+  });
+});
@@ -1,4 +1,39 @@
-import type { ParsedText, Block, Line, Word, Character } from '../types';
+import type {
+  ParsedText,
+  Block,
+  Line,
+  Word,
+  Character,
+  BlockAudioHints,
+  TextFrontMatter,
+  SynthesisMode,
+  TypeablePolicy,
+  CharacterClass
+} from '../types';
+
+/**
+ * Caracteres que hay que teclear según la política del texto
+ */
+const TYPEABLE_PATTERNS: Record<TypeablePolicy, RegExp> = {
+  letters: /\p{L}/u,
+  alphanumeric: /[\p{L}\p{N}]/u,
+  all: /\S/u
+};
+
+/**
+ * Marca de pausa al final de una línea: [pause] o [pause:N]
+ */
+const PAUSE_PATTERN = /\[pause(?::(\d+(?:\.\d+)?))?\]\s*$/;
+
+/**
+ * Pista de audio al inicio de un bloque: @clave: valor
+ */
+const HINT_PATTERN = /^@(\w+)\s*:?\s*(.+)$/;
+
+/**
+ * Claves de las pistas de audio (otra línea que empiece por @ es texto)
+ */
+const HINT_KEYS = ['mode', 'reverb', 'delay', 'octave'];
 
 /**
  * TextParser
@@ -7,44 +42,195 @@ import type { ParsedText, Block, Line, Word, Character } from '../types';
  * de datos navegable (bloques -> líneas -> palabras -> caracteres).
  *
  * Los espacios y signos de puntuación se ignoran para el tecleado, pero se
- * mantienen para la visualización.
- * Los saltos de línea simples se preservan, los dobles separan bloques.
+ * mantienen para la visualización. Qué cuenta como letra lo decide la
+ * política `typeable` de la cabecera (por defecto, solo letras Unicode).
+ * En modo estricto se teclea todo: cada palabra guarda su separador
+ * (espacio o salto de línea) para que también forme parte de la secuencia.
+ * Los saltos de línea simples se preservan, las líneas en blanco separan bloques
+ * y las líneas en blanco extra se conservan como espaciado.
+ *
+ * Si el texto empieza con una cabecera (front-matter) entre líneas `---`,
+ * además se interpreta el marcado en línea:
+ * - `*énfasis*` sobre una o varias palabras
+ * - `[pause]` / `[pause:N]` al final de una línea (o en una línea propia)
+ * - `@mode: ambient`, `@reverb: 0.8`, `@delay: 0.4`, `@octave: 3` al inicio de un bloque
  */
 export class TextParser {
   /**
    * Parsea un texto completo en la estructura de bloques
-   * @param text Texto completo con bloques separados por doble salto de línea
+   * @param text Texto completo con bloques separados por líneas en blanco
    */
   static parse(text: string): ParsedText {
-    // Dividir el texto en bloques (separados por doble salto de línea)
-    const blockTexts = text
-      .split('\n\n')
-      .map(block => block.trim())
-      .filter(block => block.length > 0);
+    // NFC para que las letras acentuadas sean un único carácter
+    const normalized = text.replace(/\r\n?/g, '\n').normalize('NFC');
+    const { frontMatter, body, hasFrontMatter } = this.extractFrontMatter(normalized);
+    const typeablePattern = TYPEABLE_PATTERNS[frontMatter.typeable ?? 'letters'];
+
+    const blocks: Block[] = this.splitBlocks(body)
+      .map(({ blockText, spacingBefore }) =>
+        this.parseBlock(blockText, spacingBefore, hasFrontMatter, typeablePattern)
+      )
+      .filter(block => block.words.length > 0);
 
-    const blocks: Block[] = blockTexts.map(blockText =>
-      this.parseBlock(blockText)
-    );
+    // Tras la última palabra del texto no hay nada que teclear
+    const lastBlock = blocks[blocks.length - 1];
+    if (lastBlock) {
+      delete lastBlock.words[lastBlock.words.length - 1].separator;
+    }
 
     return {
       blocks,
-      originalText: text
+      originalText: text,
+      frontMatter
+    };
+  }
+
+  /**
+   * Obtiene solo la cabecera de un texto (sin parsear el cuerpo)
+   */
+  static parseFrontMatter(text: string): TextFrontMatter {
+    return this.extractFrontMatter(text.replace(/\r\n?/g, '\n')).frontMatter;
+  }
+
+  /**
+   * Separa la cabecera del cuerpo del texto
+   */
+  private static extractFrontMatter(text: string): {
+    frontMatter: TextFrontMatter;
+    body: string;
+    hasFrontMatter: boolean;
+  } {
+    const match = text.match(/^---\n([\s\S]*?)\n?---(?:\n|$)/);
+    if (!match) {
+      return { frontMatter: {}, body: text, hasFrontMatter: false };
+    }
+
+    const frontMatter: TextFrontMatter = {};
+
+    match[1].split('\n').forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator < 0) return;
+
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = this.parseFrontMatterValue(line.slice(separator + 1));
+      if (value.length === 0) return;
+
+      switch (key) {
+        case 'title':
+          frontMatter.title = value;
+          break;
+
+        case 'author':
+          frontMatter.author = value;
+          break;
+
+        case 'language':
+          frontMatter.language = value;
+          break;
+
+        case 'mode':
+          frontMatter.synthesisMode = this.parseSynthesisMode(value);
+          break;
+
+        case 'tempo':
+          frontMatter.tempo = this.parsePositiveNumber(value);
+          break;
+
+        case 'typeable':
+          frontMatter.typeable = this.parseTypeablePolicy(value);
+          break;
+
+        default:
+          console.warn(`Unknown front-matter key: ${key}`);
+      }
+    });
+
+    return {
+      frontMatter: this.withoutUndefined(frontMatter),
+      body: text.slice(match[0].length),
+      hasFrontMatter: true
+    };
+  }
+
+  /**
+   * Limpia un valor de la cabecera: comillas opcionales y comentarios al estilo YAML
+   */
+  private static parseFrontMatterValue(rawValue: string): string {
+    const value = rawValue.trim();
+
+    const quoted = value.match(/^(['"])(.*?)\1/);
+    if (quoted) return quoted[2];
+
+    return value.replace(/\s+#.*$/, '');
+  }
+
+  /**
+   * Divide el cuerpo en bloques, contando las líneas en blanco extra
+   * que preceden a cada uno
+   */
+  private static splitBlocks(body: string): { blockText: string; spacingBefore: number }[] {
+    const result: { blockText: string; spacingBefore: number }[] = [];
+    let currentLines: string[] = [];
+    let blankLines = 0;
+
+    const flush = () => {
+      const blockText = currentLines.join('\n').trim();
+      if (blockText.length > 0) {
+        // La primera línea en blanco es el separador; el resto es espaciado deliberado
+        const spacingBefore = result.length > 0 ? Math.max(blankLines - 1, 0) : 0;
+        result.push({ blockText, spacingBefore });
+        blankLines = 0;
+      }
+      currentLines = [];
     };
+
+    body.split('\n').forEach(line => {
+      if (line.length === 0) {
+        flush();
+        blankLines++;
+      } else {
+        currentLines.push(line);
+      }
+    });
+    flush();
+
+    return result;
   }
 
   /**
    * Parsea un bloque individual en líneas y palabras
    */
-  private static parseBlock(blockText: string): Block {
+  private static parseBlock(
+    blockText: string,
+    spacingBefore: number,
+    withMarkup: boolean,
+    typeablePattern: RegExp
+  ): Block {
     // Dividir en líneas (separadas por salto de línea simple)
-    const lineTexts = blockText
+    let lineTexts = blockText
       .split('\n')
       .map(line => line.trim())
       .filter(line => line.length > 0);
 
-    const lines: Line[] = lineTexts.map(lineText =>
-      this.parseLine(lineText)
-    );
+    let audioHints: BlockAudioHints = {};
+    if (withMarkup) {
+      ({ audioHints, lineTexts } = this.extractAudioHints(lineTexts));
+    }
+
+    const lines: Line[] = [];
+    lineTexts.forEach(lineText => {
+      const line = this.parseLine(lineText, withMarkup, typeablePattern);
+
+      if (line.words.length > 0) {
+        lines.push(line);
+      } else if (lines.length > 0) {
+        // Una pausa en su propia línea se acumula en la línea anterior
+        lines[lines.length - 1].pauseAfter += line.pauseAfter;
+      } else {
+        // Una pausa antes de la primera línea se convierte en espaciado
+        spacingBefore += line.pauseAfter;
+      }
+    });
 
     // También crear un array plano de todas las palabras (para compatibilidad con el controlador)
     const allWords: Word[] = [];
@@ -52,29 +238,102 @@ export class TextParser {
       allWords.push(...line.words);
     });
 
+    // Separadores: espacio entre palabras y salto de línea al final de cada línea
+    lines.forEach(line => {
+      line.words.forEach((word, index) => {
+        const char = index < line.words.length - 1 ? ' ' : '\n';
+        word.separator = { char, isLetter: false, isTyped: false, isError: false };
+      });
+    });
+
     return {
       lines,
       words: allWords,
-      originalText: blockText
+      originalText: blockText,
+      spacingBefore,
+      audioHints
+    };
+  }
+
+  /**
+   * Extrae las pistas de audio de las primeras líneas del bloque
+   * @returns Las pistas y las líneas restantes
+   */
+  private static extractAudioHints(lineTexts: string[]): {
+    audioHints: BlockAudioHints;
+    lineTexts: string[];
+  } {
+    const hints: BlockAudioHints = {};
+    let index = 0;
+
+    for (; index < lineTexts.length; index++) {
+      const match = lineTexts[index].match(HINT_PATTERN);
+      if (!match || !HINT_KEYS.includes(match[1].toLowerCase())) break;
+
+      const [, key, value] = match;
+
+      switch (key.toLowerCase()) {
+        case 'mode':
+          hints.synthesisMode = this.parseSynthesisMode(value);
+          break;
+
+        case 'reverb':
+          hints.reverbAmount = this.parseUnitNumber(value);
+          break;
+
+        case 'delay':
+          hints.delayAmount = this.parseUnitNumber(value);
+          break;
+
+        case 'octave':
+          hints.baseOctave = this.parsePositiveNumber(value);
+          break;
+      }
+    }
+
+    return {
+      audioHints: this.withoutUndefined(hints),
+      lineTexts: lineTexts.slice(index)
     };
   }
 
   /**
    * Parsea una línea individual en palabras
    */
-  private static parseLine(lineText: string): Line {
+  private static parseLine(lineText: string, withMarkup: boolean, typeablePattern: RegExp): Line {
+    let text = lineText;
+    let pauseAfter = 0;
+
+    if (withMarkup) {
+      const pause = text.match(PAUSE_PATTERN);
+      if (pause) {
+        pauseAfter = pause[1] !== undefined ? parseFloat(pause[1]) : 1;
+        text = text.slice(0, pause.index).trim();
+      }
+    }
+
     // Dividir en palabras (separadas por espacios)
-    const wordTexts = lineText
+    const wordTexts = text
       .split(/\s+/)
       .filter(word => word.length > 0);
 
-    const words: Word[] = wordTexts.map(wordText =>
-      this.parseWord(wordText)
-    );
+    // El énfasis puede abarcar varias palabras de la línea
+    let inEmphasis = false;
+    const words: Word[] = [];
+
+    wordTexts.forEach(wordText => {
+      const word = this.parseWord(wordText, withMarkup, inEmphasis, typeablePattern);
+      inEmphasis = word.endsInEmphasis;
+
+      if (word.word.characters.length > 0) {
+        words.push(word.word);
+      }
+    });
 
     return {
       words,
-      originalText: lineText
+      originalText: lineText,
+      pauseAfter
     };
   }
 
@@ -82,11 +341,24 @@ export class TextParser {
    * Parsea una palabra individual en caracteres
    * Separa las letras de los signos de puntuación
    */
-  private static parseWord(wordText: string): Word {
+  private static parseWord(
+    wordText: string,
+    withMarkup: boolean,
+    startsInEmphasis: boolean,
+    typeablePattern: RegExp
+  ): { word: Word; endsInEmphasis: boolean } {
     const characters: Character[] = [];
+    let inEmphasis = startsInEmphasis;
+    let isEmphasized = false;
 
     for (const char of wordText) {
-      const isLetter = /[a-zA-ZáéíóúÁÉÍÓÚñÑ]/.test(char);
+      if (withMarkup && char === '*') {
+        inEmphasis = !inEmphasis;
+        continue;
+      }
+
+      const isLetter = typeablePattern.test(char);
+      isEmphasized = isEmphasized || inEmphasis;
 
       characters.push({
         char,
@@ -97,11 +369,61 @@ export class TextParser {
     }
 
     return {
-      characters,
-      originalText: wordText
+      word: {
+        characters,
+        originalText: characters.map(c => c.char).join(''),
+        isEmphasized
+      },
+      endsInEmphasis: inEmphasis
     };
   }
 
+  /**
+   * Elimina las claves con valor inválido (undefined) para que no
+   * sobrescriban la configuración al combinarse con ella
+   */
+  private static withoutUndefined<T extends object>(values: T): T {
+    return Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined)
+    ) as T;
+  }
+
+  /**
+   * Normaliza un modo de síntesis
+   * (el AudioEngine lo valida contra el SynthesisModeRegistry al aplicarlo)
+   */
+  private static parseSynthesisMode(value: string): SynthesisMode | undefined {
+    const mode = value.trim().toLowerCase();
+    return mode || undefined;
+  }
+
+  /**
+   * Valida una política de caracteres a teclear
+   */
+  private static parseTypeablePolicy(value: string): TypeablePolicy | undefined {
+    const policy = value.toLowerCase() as TypeablePolicy;
+    if (Object.keys(TYPEABLE_PATTERNS).includes(policy)) return policy;
+
+    console.warn(`Unknown typeable policy: ${value}`);
+    return undefined;
+  }
+
+  /**
+   * Valida un número positivo
+   */
+  private static parsePositiveNumber(value: string): number | undefined {
+    const number = parseFloat(value);
+    return Number.isFinite(number) && number > 0 ? number : undefined;
+  }
+
+  /**
+   * Valida un número entre 0 y 1
+   */
+  private static parseUnitNumber(value: string): number | undefined {
+    const number = parseFloat(value);
+    return Number.isFinite(number) ? Math.max(0, Math.min(number, 1)) : undefined;
+  }
+
   /**
    * Obtiene solo las letras de una palabra (sin puntuación)
    * Útil para comparar lo que el usuario debe teclear
@@ -110,6 +432,28 @@ export class TextParser {
     return word.characters.filter(char => char.isLetter);
   }
 
+  /**
+   * Obtiene los caracteres que hay que teclear en una palabra:
+   * solo las letras, o en modo estricto todos más el separador
+   */
+  static getTypeableCharacters(word: Word, strict: boolean): Character[] {
+    if (!strict) return this.getLettersOnly(word);
+
+    return word.separator ? [...word.characters, word.separator] : [...word.characters];
+  }
+
+  /**
+   * Clasifica un carácter (letra, dígito, puntuación, espacio...)
+   */
+  static classifyCharacter(char: string): CharacterClass {
+    if (char === '\n') return 'lineBreak';
+    if (/\s/u.test(char)) return 'space';
+    if (/\p{L}/u.test(char)) return 'letter';
+    if (/\p{N}/u.test(char)) return 'digit';
+    if (/\p{P}/u.test(char)) return 'punctuation';
+    return 'symbol';
+  }
+
   /**
    * Obtiene el total de letras en un bloque (sin contar puntuación ni espacios)
    */
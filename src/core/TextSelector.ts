@@ -0,0 +1,226 @@
+import type { GameModeId, TextEntry } from '../types';
+import { GameModeRegistry } from './GameModeRegistry';
+
+/**
+ * TextSelector
+ *
+ * Interfaz para elegir el texto antes de comenzar.
+ * Lista todas las entradas del catálogo con su título, autor e idioma
+ * y notifica la elección (junto con el modo de juego) mediante un callback.
+ * También permite cargar una grabación para reproducirla.
+ *
+ * Se puede navegar con las flechas (← → para el modo de juego) y confirmar con Enter.
+ */
+export class TextSelector {
+  private container: HTMLElement;
+  private entries: TextEntry[];
+  private selectedIndex: number = 0;
+  private selectedMode: GameModeId;
+  private isVisible: boolean = false;
+  private onSelect: (entry: TextEntry, mode: GameModeId) => void;
+  private onLoadRecording: (file: File) => void;
+
+  constructor(
+    entries: TextEntry[],
+    onSelect: (entry: TextEntry, mode: GameModeId) => void,
+    onLoadRecording: (file: File) => void
+  ) {
+    this.entries = entries;
+    this.selectedMode = GameModeRegistry.getAll()[0]?.id ?? '';
+    this.onSelect = onSelect;
+    this.onLoadRecording = onLoadRecording;
+    this.container = this.createContainer();
+    document.body.appendChild(this.container);
+
+    // Navegación con teclado mientras el selector está visible
+    document.addEventListener('keydown', (e) => {
+      if (!this.isVisible) return;
+
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        this.highlight((this.selectedIndex + 1) % this.entries.length);
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        this.highlight((this.selectedIndex - 1 + this.entries.length) % this.entries.length);
+      } else if (e.key === 'ArrowRight' || e.key === 'ArrowLeft') {
+        e.preventDefault();
+        this.cycleMode(e.key === 'ArrowRight' ? 1 : -1);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        this.choose(this.selectedIndex);
+      }
+    });
+  }
+
+  /**
+   * Crea el contenedor de la interfaz
+   */
+  private createContainer(): HTMLElement {
+    const container = document.createElement('div');
+    container.id = 'text-selector';
+    container.className = 'text-selector hidden';
+    container.innerHTML = this.buildHTML();
+
+    // Añadir event listeners después de crear el HTML
+    setTimeout(() => this.attachEventListeners(), 0);
+
+    return container;
+  }
+
+  /**
+   * Construye el HTML de la interfaz
+   */
+  private buildHTML(): string {
+    const items = this.entries.map((entry, index) => `
+      <li>
+        <button class="text-selector-item ${index === this.selectedIndex ? 'selected' : ''}" data-index="${index}">
+          <span class="text-selector-title">${this.escape(entry.metadata.title)}</span>
+          <span class="text-selector-meta">${this.escape(entry.metadata.author)} · ${this.escape(entry.metadata.language)}</span>
+        </button>
+      </li>
+    `).join('');
+
+    const modes = GameModeRegistry.getAll().map(mode => `
+      <button class="game-mode-option ${mode.id === this.selectedMode ? 'selected' : ''}" data-mode="${this.escape(mode.id)}">
+        ${this.escape(mode.label)}
+      </button>
+    `).join('');
+
+    return `
+      <div class="text-selector-panel">
+        <h2>Choose a text</h2>
+        <div class="game-mode-options">${modes}</div>
+        <p class="game-mode-description" id="game-mode-description">${this.escape(GameModeRegistry.get(this.selectedMode)?.description ?? '')}</p>
+        <ul class="text-selector-list">${items}</ul>
+        <label class="text-selector-file">
+          Replay a recording…
+          <input type="file" id="recording-file" accept="application/json,.json" />
+        </label>
+        <p class="text-selector-error" id="text-selector-error"></p>
+        <p class="hint">Use ↑ ↓ and Enter (← → to change the mode), or tap a title</p>
+      </div>
+    `;
+  }
+
+  /**
+   * Adjunta event listeners a los elementos de la lista
+   */
+  private attachEventListeners(): void {
+    this.container.querySelectorAll<HTMLButtonElement>('.text-selector-item').forEach(button => {
+      button.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.choose(Number(button.dataset.index));
+      });
+    });
+
+    this.container.querySelectorAll<HTMLButtonElement>('.game-mode-option').forEach(button => {
+      button.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.selectMode(button.dataset.mode!);
+      });
+    });
+
+    const fileInput = this.container.querySelector<HTMLInputElement>('#recording-file');
+    fileInput?.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (!file) return;
+
+      this.showError('');
+      this.onLoadRecording(file);
+    });
+  }
+
+  /**
+   * Muestra un mensaje de error bajo la lista (vacío para ocultarlo)
+   */
+  showError(message: string): void {
+    const errorEl = this.container.querySelector('#text-selector-error');
+    if (errorEl) errorEl.textContent = message;
+  }
+
+  /**
+   * Resalta una entrada de la lista
+   */
+  private highlight(index: number): void {
+    this.selectedIndex = index;
+    this.container.querySelectorAll('.text-selector-item').forEach((item, i) => {
+      item.classList.toggle('selected', i === index);
+    });
+  }
+
+  /**
+   * Elige el modo de juego
+   */
+  private selectMode(id: GameModeId): void {
+    const mode = GameModeRegistry.get(id);
+    if (!mode) return;
+
+    this.selectedMode = id;
+    this.container.querySelectorAll<HTMLButtonElement>('.game-mode-option').forEach(button => {
+      button.classList.toggle('selected', button.dataset.mode === id);
+    });
+
+    const description = this.container.querySelector('#game-mode-description');
+    if (description) description.textContent = mode.description;
+  }
+
+  /**
+   * Pasa al modo de juego siguiente o anterior
+   */
+  private cycleMode(step: number): void {
+    const modes = GameModeRegistry.getAll();
+    const index = modes.findIndex(mode => mode.id === this.selectedMode);
+    const next = modes[(index + step + modes.length) % modes.length];
+    if (next) this.selectMode(next.id);
+  }
+
+  /**
+   * Confirma la elección de una entrada
+   */
+  private choose(index: number): void {
+    const entry = this.entries[index];
+    if (!entry) return;
+
+    this.selectedIndex = index;
+    this.hide();
+    this.onSelect(entry, this.selectedMode);
+  }
+
+  /**
+   * Escapa texto para insertarlo en el HTML
+   */
+  private escape(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
+  /**
+   * Muestra el selector, resaltando opcionalmente una entrada
+   */
+  show(selectedId?: string): void {
+    if (selectedId) {
+      const index = this.entries.findIndex(entry => entry.id === selectedId);
+      if (index >= 0) this.highlight(index);
+    }
+
+    this.container.classList.remove('hidden');
+    this.isVisible = true;
+  }
+
+  /**
+   * Oculta el selector
+   */
+  hide(): void {
+    this.container.classList.add('hidden');
+    this.isVisible = false;
+  }
+
+  /**
+   * Indica si el selector está visible
+   */
+  isOpen(): boolean {
+    return this.isVisible;
+  }
+}
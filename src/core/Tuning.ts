@@ -0,0 +1,361 @@
+import type { AudioConfig, KeyboardMapping, ScalaScale, ScaleName, TuningSystem } from '../types';
+
+/**
+ * Intervalos (semitonos sobre la tónica) de las escalas con nombre
+ */
+export const SCALES: Record<Exclude<ScaleName, 'mode' | 'custom'>, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+  majorPentatonic: [0, 2, 4, 7, 9],
+  minorPentatonic: [0, 3, 5, 7, 10],
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+};
+
+/**
+ * Escalas y sistemas de afinación válidos (en el orden de los selectores)
+ */
+export const SCALE_NAMES: readonly ScaleName[] = ['mode', ...Object.keys(SCALES) as ScaleName[], 'custom'];
+export const TUNING_SYSTEMS: readonly TuningSystem[] = ['equal', 'just', 'edo', 'scala'];
+
+/**
+ * Límites de las divisiones de la octava del sistema 'edo'
+ */
+export const EDO_DIVISIONS = { min: 5, max: 72 };
+
+/**
+ * Entonación justa de 5 límites: razón de cada semitono sobre la tónica
+ */
+const JUST_RATIOS = [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8, 2];
+
+/**
+ * Tuning
+ *
+ * Afinación compartida por los modos musicales, los acordes de los finales y
+ * el drone. Cada modo pide la frecuencia de un grado de su escala y aquí se
+ * decide según la configuración:
+ * - Tónica (tuningRoot) y escala: la propia del modo, una con nombre o
+ *   intervalos escritos por el usuario
+ * - Sistema: temperamento igual, entonación justa, EDO de N pasos o un
+ *   archivo Scala (.scl, con su .kbm opcional), que trae su propia escala
+ *
+ * Los archivos Scala se cargan desde el panel y duran hasta recargar la
+ * página; sin ellos, el sistema 'scala' suena en temperamento igual.
+ */
+export class Tuning {
+  private static scala: ScalaScale | null = null;
+  private static scalaName: string | null = null;
+  private static keyboardMapping: KeyboardMapping | null = null;
+  private static keyboardMappingName: string | null = null;
+
+  /**
+   * Frecuencia de un grado de la escala (los grados se repiten cíclicamente)
+   * @param step Grado (ver getPitchStep)
+   * @param octave Octava de la tónica (la nota MIDI de la tónica es tuningRoot + octave * 12)
+   * @param modeScale Escala propia del modo, en semitonos (para la escala 'mode')
+   */
+  static getScaleFrequency(step: number, octave: number, config: AudioConfig, modeScale: number[]): number {
+    const scale = this.getScale(config, modeScale);
+    const cents = scale[((step % scale.length) + scale.length) % scale.length];
+    return this.getRootFrequency(octave, config) * Math.pow(2, cents / 1200);
+  }
+
+  /**
+   * Frecuencia de una nota MIDI (fraccionaria si hace falta) en el sistema
+   * de afinación, tomando como referencia la tónica de su octava
+   */
+  static getMidiFrequency(midi: number, config: AudioConfig): number {
+    const octave = Math.floor((midi - config.tuningRoot) / 12);
+    const semitones = midi - config.tuningRoot - octave * 12;
+    return this.getRootFrequency(octave, config) * Math.pow(2, this.toCents(semitones, config) / 1200);
+  }
+
+  /**
+   * Frecuencia de la tónica en una octava
+   */
+  static getRootFrequency(octave: number, config: AudioConfig): number {
+    const mapping = this.getActiveScala(config) ? this.keyboardMapping : null;
+    if (!mapping || !this.scala) {
+      return this.midiToFrequency(config.tuningRoot + octave * 12);
+    }
+
+    // Con .kbm, la tónica es el grado 0 en la nota central, a partir de la frecuencia de referencia
+    const middleFrequency = mapping.referenceFrequency /
+      Math.pow(2, this.getKeyCents(this.scala, mapping, mapping.referenceNote - mapping.middleNote) / 1200);
+    const periods = Math.round((octave * 12 - mapping.middleNote) / 12);
+
+    return middleFrequency * Math.pow(2, periods * this.getPeriodCents(this.scala, mapping) / 1200);
+  }
+
+  /**
+   * Lee los intervalos de una escala escrita por el usuario ("0 2 3.5 7"):
+   * semitonos ordenados y sin repetir, reducidos a una octava
+   */
+  static parseIntervals(text: string): number[] {
+    const intervals = text
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number)
+      .filter(Number.isFinite)
+      .map(interval => ((interval % 12) + 12) % 12);
+
+    return Array.from(new Set(intervals)).sort((a, b) => a - b);
+  }
+
+  /**
+   * Nombre de los archivos Scala cargados (null si no hay ninguno)
+   */
+  static getScalaName(): string | null {
+    if (!this.scalaName) return null;
+    return this.keyboardMappingName ? `${this.scalaName} + ${this.keyboardMappingName}` : this.scalaName;
+  }
+
+  /**
+   * Carga una escala de un archivo .scl
+   */
+  static loadScala(text: string, name: string): void {
+    this.scala = this.parseScl(text);
+    this.scalaName = name;
+  }
+
+  /**
+   * Carga un mapa de teclado de un archivo .kbm (se aplica a la escala .scl)
+   */
+  static loadKeyboardMapping(text: string, name: string): void {
+    this.keyboardMapping = this.parseKbm(text);
+    this.keyboardMappingName = name;
+  }
+
+  /**
+   * Olvida los archivos Scala cargados
+   */
+  static reset(): void {
+    this.scala = null;
+    this.scalaName = null;
+    this.keyboardMapping = null;
+    this.keyboardMappingName = null;
+  }
+
+  /**
+   * Lee un archivo .scl: descripción, número de notas y una nota por línea
+   * (en cents si tiene punto decimal, si no como razón "3/2" o entero)
+   */
+  static parseScl(text: string): ScalaScale {
+    const lines = text.split(/\r?\n/).filter(line => !line.startsWith('!'));
+    if (lines.length < 2) {
+      throw new Error('Invalid Scala file: missing header');
+    }
+
+    const description = lines[0].trim();
+    const count = parseInt(lines[1].trim(), 10);
+    if (!(count > 0)) {
+      throw new Error(`Invalid Scala note count: ${lines[1].trim()}`);
+    }
+
+    const pitches = lines
+      .slice(2)
+      .map(line => line.trim())
+      .filter(Boolean)
+      .slice(0, count)
+      .map(line => this.parsePitch(line.split(/\s+/)[0]));
+
+    if (pitches.length < count) {
+      throw new Error(`Invalid Scala file: expected ${count} notes, found ${pitches.length}`);
+    }
+
+    return { description, pitches };
+  }
+
+  /**
+   * Lee un archivo .kbm: tamaño del patrón, notas primera/última/central,
+   * nota y frecuencia de referencia, grado del periodo y el patrón ('x' = sin nota)
+   */
+  static parseKbm(text: string): KeyboardMapping {
+    const lines = text
+      .split(/\r?\n/)
+      .filter(line => !line.startsWith('!'))
+      .map(line => line.trim().split(/\s+/)[0])
+      .filter(Boolean);
+
+    if (lines.length < 7) {
+      throw new Error('Invalid keyboard mapping: missing header');
+    }
+
+    const [size, , , middleNote, referenceNote, , octaveDegree] = lines.slice(0, 7).map(value => parseInt(value, 10));
+    const referenceFrequency = parseFloat(lines[5]);
+
+    if ([size, middleNote, referenceNote, octaveDegree].some(value => !Number.isInteger(value) || value < 0)) {
+      throw new Error('Invalid keyboard mapping: header values must be non-negative integers');
+    }
+    if (!(referenceFrequency > 0)) {
+      throw new Error(`Invalid keyboard mapping reference frequency: ${lines[5]}`);
+    }
+
+    // Las teclas que faltan al final del patrón quedan sin nota
+    const mapping = Array.from({ length: size }, (_, i) => {
+      const value = lines[7 + i];
+      if (value === undefined || value.toLowerCase() === 'x') return null;
+
+      const degree = parseInt(value, 10);
+      if (!Number.isInteger(degree) || degree < 0) {
+        throw new Error(`Invalid keyboard mapping degree: ${value}`);
+      }
+      return degree;
+    });
+
+    return { size, middleNote, referenceNote, referenceFrequency, octaveDegree, mapping };
+  }
+
+  /**
+   * Grados de la escala efectiva, en cents sobre la tónica
+   */
+  private static getScale(config: AudioConfig, modeScale: number[]): number[] {
+    const scala = this.getActiveScala(config);
+    if (scala) return this.getScalaDegrees(scala);
+
+    // En una EDO, la escala cromática recorre todos sus pasos
+    if (config.tuningSystem === 'edo' && config.scale === 'chromatic') {
+      const divisions = this.getDivisions(config);
+      return Array.from({ length: divisions }, (_, i) => i * 1200 / divisions);
+    }
+
+    let semitones = modeScale;
+    if (config.scale === 'custom') {
+      const custom = this.parseIntervals(config.customScale);
+      if (custom.length > 0) semitones = custom;
+    } else if (config.scale !== 'mode') {
+      semitones = SCALES[config.scale] ?? modeScale;
+    }
+
+    return semitones.map(interval => this.toCents(interval, config));
+  }
+
+  /**
+   * Cents de un intervalo en semitonos según el sistema de afinación
+   */
+  private static toCents(semitones: number, config: AudioConfig): number {
+    const octaves = Math.floor(semitones / 12);
+    const interval = semitones - octaves * 12;
+
+    const scala = this.getActiveScala(config);
+    if (scala) {
+      // Grado más cercano de la escala Scala
+      const period = this.getPeriodCents(scala, this.keyboardMapping);
+      const degrees = [0, ...scala.pitches];
+      const target = interval * 100;
+      const nearest = degrees.reduce((best, cents) => Math.abs(cents - target) < Math.abs(best - target) ? cents : best);
+      return nearest + octaves * period;
+    }
+
+    let cents: number;
+    switch (config.tuningSystem) {
+      case 'just': {
+        // Los semitonos fraccionarios se interpolan entre las dos razones vecinas
+        const lower = Math.floor(interval);
+        const lowerCents = 1200 * Math.log2(JUST_RATIOS[lower]);
+        const upperCents = 1200 * Math.log2(JUST_RATIOS[lower + 1]);
+        cents = lowerCents + (upperCents - lowerCents) * (interval - lower);
+        break;
+      }
+      case 'edo': {
+        const divisions = this.getDivisions(config);
+        cents = Math.round(interval * divisions / 12) * 1200 / divisions;
+        break;
+      }
+      default:
+        cents = interval * 100;
+    }
+
+    return cents + octaves * 1200;
+  }
+
+  /**
+   * Escala Scala en uso (null si el sistema no es 'scala' o no hay archivo cargado)
+   */
+  private static getActiveScala(config: AudioConfig): ScalaScale | null {
+    return config.tuningSystem === 'scala' ? this.scala : null;
+  }
+
+  /**
+   * Grados de la escala Scala en cents: los del .kbm si hay uno, si no todos
+   */
+  private static getScalaDegrees(scala: ScalaScale): number[] {
+    const mapping = this.keyboardMapping;
+    const mapped = mapping && mapping.size > 0
+      ? mapping.mapping.filter((degree): degree is number => degree !== null)
+      : [];
+
+    if (mapped.length > 0) {
+      return mapped.map(degree => this.getDegreeCents(scala, degree));
+    }
+    return [0, ...scala.pitches.slice(0, -1)];
+  }
+
+  /**
+   * Cents de un grado de la escala Scala (los grados mayores que n suben de periodo)
+   */
+  private static getDegreeCents(scala: ScalaScale, degree: number): number {
+    const count = scala.pitches.length;
+    const periods = Math.floor(degree / count);
+    const index = degree - periods * count;
+    return (index === 0 ? 0 : scala.pitches[index - 1]) + periods * scala.pitches[count - 1];
+  }
+
+  /**
+   * Cents de una tecla a cierta distancia de la nota central según el .kbm
+   */
+  private static getKeyCents(scala: ScalaScale, mapping: KeyboardMapping, offset: number): number {
+    if (mapping.size === 0) return this.getDegreeCents(scala, offset);
+
+    const periods = Math.floor(offset / mapping.size);
+    const degree = mapping.mapping[offset - periods * mapping.size] ?? 0;
+    return this.getDegreeCents(scala, degree) + periods * this.getPeriodCents(scala, mapping);
+  }
+
+  /**
+   * Periodo en cents: el grado de octava del .kbm o el último grado del .scl
+   */
+  private static getPeriodCents(scala: ScalaScale, mapping: KeyboardMapping | null): number {
+    return mapping && mapping.octaveDegree > 0
+      ? this.getDegreeCents(scala, mapping.octaveDegree)
+      : scala.pitches[scala.pitches.length - 1];
+  }
+
+  /**
+   * Pasos de la EDO, dentro de los límites
+   */
+  private static getDivisions(config: AudioConfig): number {
+    return Math.min(Math.max(Math.round(config.edoDivisions), EDO_DIVISIONS.min), EDO_DIVISIONS.max);
+  }
+
+  /**
+   * Lee una nota de un .scl en cents
+   */
+  private static parsePitch(token: string): number {
+    if (token.includes('.')) {
+      const cents = parseFloat(token);
+      if (!Number.isFinite(cents)) {
+        throw new Error(`Invalid Scala pitch: ${token}`);
+      }
+      return cents;
+    }
+
+    const [numerator, denominator = '1'] = token.split('/');
+    const ratio = parseInt(numerator, 10) / parseInt(denominator, 10);
+    if (!(ratio > 0) || !Number.isFinite(ratio)) {
+      throw new Error(`Invalid Scala pitch: ${token}`);
+    }
+    return 1200 * Math.log2(ratio);
+  }
+
+  /**
+   * Frecuencia de una nota MIDI en temperamento igual (La4 = 440 Hz)
+   */
+  private static midiToFrequency(midi: number): number {
+    return 440 * Math.pow(2, (midi - 69) / 12);
+  }
+}
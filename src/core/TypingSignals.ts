@@ -0,0 +1,80 @@
+import type { AudioSignal, ParsedText, SignalType, TypingEventMap, TypingState } from '../types';
+import type { EventBus } from './EventBus';
+
+/**
+ * Eventos de final de unidad, de menor a mayor (también son tipos de señal)
+ */
+export const BOUNDARY_EVENTS = ['wordComplete', 'lineComplete', 'blockComplete', 'textComplete'] as const;
+
+/**
+ * TypingSignals
+ *
+ * Publica las señales del tecleado en el EventBus. Lo usan el KeyboardController,
+ * el SessionPlayer y el OfflineRenderer, para que una reproducción o una
+ * exportación tengan los mismos eventos que la interpretación original.
+ */
+export class TypingSignals {
+  /**
+   * Emite una tecla o un retroceso: 'keypress' y su evento concreto
+   * ('correct', 'error' o 'retreat')
+   */
+  static emitKey(events: EventBus<TypingEventMap>, signal: AudioSignal): void {
+    events.emit('keypress', signal);
+
+    if (signal.signalType === 'retreat') {
+      events.emit('retreat', signal);
+    } else {
+      events.emit(signal.isError ? 'error' : 'correct', signal);
+    }
+  }
+
+  /**
+   * Emite los finales (palabra, línea, bloque, texto) que completa una tecla,
+   * comparando su posición con la del cursor después de teclearla
+   * @returns true si se completó el texto
+   */
+  static emitBoundaries(
+    events: EventBus<TypingEventMap>,
+    parsedText: ParsedText,
+    signal: AudioSignal,
+    state: TypingState
+  ): boolean {
+    if (signal.signalType !== 'keystroke') return false;
+
+    const blockChanged = state.currentBlockIndex > signal.blockIndexInText;
+    const wordChanged = blockChanged || (
+      state.currentBlockIndex === signal.blockIndexInText &&
+      state.currentWordIndex > signal.wordIndexInBlock
+    );
+    if (!wordChanged) return false;
+
+    const word = parsedText.blocks[signal.blockIndexInText]?.words[signal.wordIndexInBlock];
+    const textComplete = state.currentBlockIndex >= parsedText.blocks.length;
+
+    events.emit('wordComplete', this.boundary(signal, 'wordComplete'));
+
+    // La línea termina en un salto de línea, al final del bloque o del texto,
+    // o en una palabra sin nada que teclear que el cursor ha saltado
+    const skippedWords = blockChanged
+      ? []
+      : parsedText.blocks[signal.blockIndexInText].words.slice(signal.wordIndexInBlock + 1, state.currentWordIndex);
+    if (blockChanged || word?.separator?.char !== ' ' || skippedWords.some(skipped => skipped.separator?.char !== ' ')) {
+      events.emit('lineComplete', this.boundary(signal, 'lineComplete'));
+    }
+    if (blockChanged) {
+      events.emit('blockComplete', this.boundary(signal, 'blockComplete'));
+    }
+    if (textComplete) {
+      events.emit('textComplete', this.boundary(signal, 'textComplete'));
+    }
+
+    return textComplete;
+  }
+
+  /**
+   * Señal de un final a partir de la tecla que lo completa
+   */
+  static boundary(signal: AudioSignal, signalType: SignalType): AudioSignal {
+    return { ...signal, signalType, isError: false, typedCharacter: undefined };
+  }
+}
@@ -0,0 +1,175 @@
+import type { AudioSignal, TypingStatsSnapshot, KeyLatency, ErrorHotspot } from '../types';
+
+/**
+ * Caracteres por palabra en el cálculo estándar de WPM
+ */
+const CHARS_PER_WORD = 5;
+
+/**
+ * Acumulador de latencias por tecla
+ */
+interface LatencyAccumulator {
+  totalMs: number;
+  count: number;
+}
+
+/**
+ * TypingStats
+ *
+ * Calcula estadísticas de tecleado a partir de las señales de audio
+ * del KeyboardController: WPM/CPM, precisión, latencia por letra y por
+ * bigrama, errores más frecuentes y duración de cada bloque.
+ *
+ * Solo usa los timestamps de las señales, así que el resultado es el mismo
+ * en directo que al procesar una secuencia grabada.
+ */
+export class TypingStats {
+  private firstTimestamp: number | null = null;
+  private lastTimestamp: number = 0;
+  private lastCorrect: AudioSignal | null = null;
+
+  private totalKeystrokes: number = 0;
+  private correctKeystrokes: number = 0;
+
+  private letterLatencies = new Map<string, LatencyAccumulator>();
+  private bigramLatencies = new Map<string, LatencyAccumulator>();
+  private errorCounts = new Map<string, number>();
+  private blockTimes = new Map<number, { start: number; end: number }>();
+
+  /**
+   * Registra una señal de tecleado
+   */
+  record(signal: AudioSignal): void {
+    // Los retrocesos (Backspace) no son pulsaciones del texto
+    if (signal.signalType === 'retreat') return;
+
+    const time = signal.timestamp;
+
+    if (this.firstTimestamp === null) {
+      this.firstTimestamp = time;
+    }
+    this.lastTimestamp = time;
+    this.totalKeystrokes++;
+
+    // Duración del bloque: desde la primera hasta la última tecla dentro de él
+    const blockTime = this.blockTimes.get(signal.blockIndexInText);
+    if (blockTime) {
+      blockTime.end = time;
+    } else {
+      this.blockTimes.set(signal.blockIndexInText, { start: time, end: time });
+    }
+
+    const character = signal.character.toLowerCase();
+
+    if (signal.isError) {
+      this.errorCounts.set(character, (this.errorCounts.get(character) ?? 0) + 1);
+      return;
+    }
+
+    this.correctKeystrokes++;
+
+    // Latencia: tiempo desde la tecla correcta anterior
+    if (this.lastCorrect) {
+      const latency = time - this.lastCorrect.timestamp;
+      this.addLatency(this.letterLatencies, character, latency);
+
+      // Bigrama solo dentro de la misma palabra
+      if (this.isSameWord(this.lastCorrect, signal)) {
+        const bigram = this.lastCorrect.character.toLowerCase() + character;
+        this.addLatency(this.bigramLatencies, bigram, latency);
+      }
+    }
+
+    this.lastCorrect = signal;
+  }
+
+  /**
+   * Obtiene las estadísticas actuales
+   * @param now Momento de referencia (por defecto, la última tecla)
+   */
+  getSnapshot(now: number = this.lastTimestamp): TypingStatsSnapshot {
+    const elapsedMs = this.firstTimestamp === null ? 0 : Math.max(now - this.firstTimestamp, 0);
+    const minutes = elapsedMs / 60000;
+    const cpm = minutes > 0 ? this.correctKeystrokes / minutes : 0;
+
+    return {
+      elapsedMs,
+      wpm: cpm / CHARS_PER_WORD,
+      cpm,
+      accuracy: this.totalKeystrokes > 0 ? this.correctKeystrokes / this.totalKeystrokes : 1,
+      totalKeystrokes: this.totalKeystrokes,
+      correctKeystrokes: this.correctKeystrokes,
+      errors: this.totalKeystrokes - this.correctKeystrokes,
+      letterLatencies: this.toLatencyList(this.letterLatencies),
+      bigramLatencies: this.toLatencyList(this.bigramLatencies),
+      errorHotspots: this.toHotspotList(),
+      blockDurations: this.toBlockDurations()
+    };
+  }
+
+  /**
+   * Reinicia todas las estadísticas
+   */
+  reset(): void {
+    this.firstTimestamp = null;
+    this.lastTimestamp = 0;
+    this.lastCorrect = null;
+    this.totalKeystrokes = 0;
+    this.correctKeystrokes = 0;
+    this.letterLatencies.clear();
+    this.bigramLatencies.clear();
+    this.errorCounts.clear();
+    this.blockTimes.clear();
+  }
+
+  /**
+   * Indica si dos señales pertenecen a la misma palabra
+   */
+  private isSameWord(previous: AudioSignal, current: AudioSignal): boolean {
+    return previous.blockIndexInText === current.blockIndexInText
+      && previous.wordIndexInBlock === current.wordIndexInBlock;
+  }
+
+  /**
+   * Acumula una latencia para una clave
+   */
+  private addLatency(map: Map<string, LatencyAccumulator>, key: string, latency: number): void {
+    const accumulator = map.get(key) ?? { totalMs: 0, count: 0 };
+    accumulator.totalMs += latency;
+    accumulator.count++;
+    map.set(key, accumulator);
+  }
+
+  /**
+   * Convierte un mapa de latencias en una lista ordenada (más lentas primero)
+   */
+  private toLatencyList(map: Map<string, LatencyAccumulator>): KeyLatency[] {
+    return Array.from(map.entries())
+      .map(([key, { totalMs, count }]) => ({ key, averageMs: totalMs / count, count }))
+      .sort((a, b) => b.averageMs - a.averageMs);
+  }
+
+  /**
+   * Lista de errores por carácter (más errores primero)
+   */
+  private toHotspotList(): ErrorHotspot[] {
+    return Array.from(this.errorCounts.entries())
+      .map(([character, errors]) => ({ character, errors }))
+      .sort((a, b) => b.errors - a.errors);
+  }
+
+  /**
+   * Duración de cada bloque en ms (0 para los bloques sin teclas)
+   */
+  private toBlockDurations(): number[] {
+    const lastBlock = Math.max(-1, ...this.blockTimes.keys());
+    const durations: number[] = [];
+
+    for (let blockIndex = 0; blockIndex <= lastBlock; blockIndex++) {
+      const blockTime = this.blockTimes.get(blockIndex);
+      durations.push(blockTime ? blockTime.end - blockTime.start : 0);
+    }
+
+    return durations;
+  }
+}
@@ -0,0 +1,140 @@
+import type { ViewportConfig } from '../types';
+
+/**
+ * Configuración por defecto del viewport
+ */
+export const DEFAULT_VIEWPORT_CONFIG: ViewportConfig = {
+  focalPosition: 0.4,
+  fadeOlderBlocks: true,
+  paginate: false
+};
+
+/**
+ * Opacidad que pierde cada bloque anterior y opacidad mínima
+ */
+const FADE_STEP = 0.25;
+const MIN_OPACITY = 0.2;
+
+/**
+ * ViewportManager
+ *
+ * Mantiene visible el carácter actual en textos largos: desplaza la página
+ * para dejar la línea actual a una altura fija de la pantalla (la posición
+ * focal), atenúa los bloques anteriores y, opcionalmente, muestra solo el
+ * bloque actual (paginación).
+ *
+ * Solo se desplaza al cambiar de línea, y sin animación si el sistema pide
+ * reducir el movimiento (prefers-reduced-motion).
+ */
+export class ViewportManager {
+  private container: HTMLElement;
+  private config: ViewportConfig;
+  private currentLine: Element | null = null;
+  private currentElement: HTMLElement | null = null;
+  private blockIndex: number = -1;
+
+  /**
+   * @param container Contenedor del texto (sus hijos son los bloques, en orden)
+   */
+  constructor(container: HTMLElement, config?: Partial<ViewportConfig>) {
+    this.container = container;
+    this.config = { ...DEFAULT_VIEWPORT_CONFIG, ...config };
+    this.applyLayout();
+
+    // Recolocar la línea actual si cambia el tamaño de la pantalla (p. ej. el teclado en móvil)
+    const onResize = () => this.follow(this.currentElement, this.blockIndex, true);
+    window.addEventListener('resize', onResize);
+    window.visualViewport?.addEventListener('resize', onResize);
+  }
+
+  /**
+   * Sigue al carácter actual
+   * @param current Elemento del carácter actual (null si el texto está completo)
+   * @param blockIndex Bloque actual
+   * @param force Recalcular aunque no haya cambiado la línea ni el bloque (p. ej. tras reconstruir el DOM)
+   */
+  follow(current: HTMLElement | null, blockIndex: number, force: boolean = false): void {
+    this.currentElement = current;
+
+    if (force || blockIndex !== this.blockIndex) {
+      this.blockIndex = blockIndex;
+      this.updateBlocks();
+    }
+
+    const line = current?.closest('.line') ?? null;
+    if (!line || (!force && line === this.currentLine)) return;
+
+    this.currentLine = line;
+    this.scrollToFocus(line);
+  }
+
+  /**
+   * Desplaza la página para dejar la línea en la posición focal
+   */
+  private scrollToFocus(line: Element): void {
+    const viewportHeight = window.visualViewport?.height ?? window.innerHeight;
+    const top = line.getBoundingClientRect().top + window.scrollY - viewportHeight * this.config.focalPosition;
+
+    window.scrollTo({
+      top: Math.max(0, top),
+      behavior: this.prefersReducedMotion() ? 'auto' : 'smooth'
+    });
+  }
+
+  /**
+   * Atenúa u oculta los bloques anteriores al actual
+   */
+  private updateBlocks(): void {
+    Array.from(this.container.children).forEach((block, index) => {
+      const element = block as HTMLElement;
+      const age = this.blockIndex - index;
+
+      const faded = this.config.fadeOlderBlocks && age > 0;
+      element.classList.toggle('faded', faded);
+      if (faded) {
+        element.style.setProperty('--block-opacity', String(Math.max(MIN_OPACITY, 1 - age * FADE_STEP)));
+      }
+
+      element.classList.toggle('paged-out', this.config.paginate && age > 0);
+    });
+  }
+
+  /**
+   * Deja sitio bajo el texto para que la última línea también llegue a la posición focal
+   */
+  private applyLayout(): void {
+    this.container.style.paddingBottom = `${Math.round((1 - this.config.focalPosition) * 100)}vh`;
+  }
+
+  /**
+   * Indica si el sistema pide reducir las animaciones
+   */
+  private prefersReducedMotion(): boolean {
+    return window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+  }
+
+  /**
+   * Olvida la posición anterior (al cargar otro texto)
+   */
+  reset(): void {
+    this.currentLine = null;
+    this.currentElement = null;
+    this.blockIndex = -1;
+  }
+
+  /**
+   * Cambia la configuración y recoloca el texto
+   */
+  updateConfig(config: Partial<ViewportConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.applyLayout();
+    this.follow(this.currentElement, this.blockIndex, true);
+  }
+
+  /**
+   * Obtiene la configuración actual
+   */
+  getConfig(): ViewportConfig {
+    return { ...this.config };
+  }
+}
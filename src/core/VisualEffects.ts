@@ -0,0 +1,318 @@
+import type * as Tone from 'tone';
+import type { AudioSignal, SynthesisMode, VisualEffectsConfig } from '../types';
+import { SynthesisModeRegistry } from './SynthesisModeRegistry';
+
+/**
+ * Configuración por defecto de los efectos visuales
+ */
+export const DEFAULT_VISUAL_EFFECTS_CONFIG: VisualEffectsConfig = {
+  enabled: true,
+  intensity: 0.6
+};
+
+/**
+ * Tono de los errores y de los retrocesos (rojo y gris azulado)
+ */
+const ERROR_HUE = 0;
+const RETREAT_HUE = 210;
+
+/**
+ * Partículas por tecla con intensidad máxima
+ */
+const MAX_PARTICLES_PER_KEY = 16;
+
+/**
+ * Vida de partículas y ondas (ms)
+ */
+const PARTICLE_LIFE_MS = 900;
+const RIPPLE_LIFE_MS = 700;
+
+/**
+ * La salida del motor pasa por masterGain (~0.1): escalar el nivel del medidor a 0-1
+ */
+const LEVEL_GAIN = 8;
+
+/**
+ * Partícula que sale de la letra tecleada
+ */
+interface Particle {
+  x: number;
+  y: number;
+  vx: number;        // px/s
+  vy: number;        // px/s
+  gravity: number;   // px/s²
+  age: number;       // ms
+  life: number;      // ms
+  size: number;
+  hue: number;
+  lightness: number;
+}
+
+/**
+ * Onda que se expande desde la letra tecleada
+ */
+interface Ripple {
+  x: number;
+  y: number;
+  age: number;
+  life: number;
+  maxRadius: number;
+  hue: number;
+  lightness: number;
+}
+
+/**
+ * VisualEffects
+ *
+ * Capa de canvas 2D detrás del texto que dibuja partículas y ondas en la
+ * letra tecleada. El color sale de la señal (error, retroceso o acierto) y
+ * del modo de síntesis con el que suena, desplazado según el progreso en el
+ * bloque; el brillo sigue al nivel de la salida del AudioEngine (Tone.Meter).
+ *
+ * El bucle de animación solo corre mientras hay efectos vivos, y no se dibuja
+ * nada si el sistema pide reducir el movimiento (prefers-reduced-motion).
+ */
+export class VisualEffects {
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D | null;
+  private config: VisualEffectsConfig;
+  private meter: Tone.Meter | null = null;
+  private particles: Particle[] = [];
+  private ripples: Ripple[] = [];
+  private frame: number | null = null;
+  private lastFrameTime: number = 0;
+
+  constructor(config?: Partial<VisualEffectsConfig>) {
+    this.config = { ...DEFAULT_VISUAL_EFFECTS_CONFIG, ...config };
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.id = 'visual-effects';
+    this.canvas.className = 'visual-effects';
+    document.body.appendChild(this.canvas);
+    this.context = this.canvas.getContext('2d');
+
+    this.resize();
+    window.addEventListener('resize', () => this.resize());
+  }
+
+  /**
+   * Conecta el medidor de nivel de la salida de audio (ver AudioEngine.createMeter)
+   */
+  setMeter(meter: Tone.Meter): void {
+    this.meter?.dispose();
+    this.meter = meter;
+  }
+
+  /**
+   * Lanza el efecto de una señal en la posición de su carácter
+   * @param element Elemento del carácter tecleado (null si no está en pantalla)
+   * @param mode Modo de síntesis con el que suena la señal
+   */
+  trigger(signal: AudioSignal, element: HTMLElement | null, mode: SynthesisMode): void {
+    if (!this.config.enabled || !element || !this.context || this.prefersReducedMotion()) return;
+
+    const rect = element.getBoundingClientRect();
+    const x = rect.left + rect.width / 2;
+    const y = rect.top + rect.height / 2;
+
+    const intensity = this.config.intensity;
+    const blockProgress = this.progress(signal.wordIndexInBlock, signal.totalWordsInBlock);
+    const lightness = 45 + blockProgress * 25;
+
+    if (signal.signalType === 'retreat') {
+      // Retroceso: solo una onda pequeña y apagada
+      this.ripples.push({ x, y, age: 0, life: RIPPLE_LIFE_MS / 2, maxRadius: 20, hue: RETREAT_HUE, lightness: 35 });
+    } else {
+      const hue = signal.isError ? ERROR_HUE : this.getHue(mode, signal);
+      const emphasis = signal.isEmphasized ? 1.6 : 1;
+
+      this.ripples.push({
+        x,
+        y,
+        age: 0,
+        life: RIPPLE_LIFE_MS,
+        maxRadius: (30 + 60 * intensity) * emphasis,
+        hue,
+        lightness
+      });
+
+      const count = Math.round(MAX_PARTICLES_PER_KEY * intensity * emphasis);
+      for (let i = 0; i < count; i++) {
+        this.particles.push(this.createParticle(x, y, hue, lightness, signal.isError));
+      }
+    }
+
+    this.start();
+  }
+
+  /**
+   * Crea una partícula: los aciertos se abren hacia arriba y los errores caen
+   */
+  private createParticle(x: number, y: number, hue: number, lightness: number, isError: boolean): Particle {
+    const angle = isError ? Math.random() * Math.PI * 2 : -Math.PI / 2 + (Math.random() - 0.5) * Math.PI;
+    const speed = (isError ? 120 : 60) + Math.random() * 100;
+
+    return {
+      x,
+      y,
+      vx: Math.cos(angle) * speed,
+      vy: Math.sin(angle) * speed,
+      gravity: isError ? 400 : 60,
+      age: 0,
+      life: PARTICLE_LIFE_MS * (0.6 + Math.random() * 0.4),
+      size: 1.5 + Math.random() * 2.5,
+      hue: hue + (Math.random() - 0.5) * 20,
+      lightness
+    };
+  }
+
+  /**
+   * Tono de un acierto: el del modo de síntesis, desplazado con el progreso en el texto
+   */
+  private getHue(mode: SynthesisMode, signal: AudioSignal): number {
+    const base = SynthesisModeRegistry.get(mode)?.hue ?? this.hashHue(mode);
+    const textProgress = this.progress(signal.blockIndexInText, signal.totalBlocksInText);
+    return (base + textProgress * 60) % 360;
+  }
+
+  /**
+   * Tono estable para modos sin color propio
+   */
+  private hashHue(mode: SynthesisMode): number {
+    let hash = 0;
+    for (const char of mode) {
+      hash = (hash * 31 + char.charCodeAt(0)) % 360;
+    }
+    return hash;
+  }
+
+  /**
+   * Posición relativa (0-1) de un índice en un total
+   */
+  private progress(index: number, total: number): number {
+    return total > 1 ? index / (total - 1) : 0;
+  }
+
+  /**
+   * Arranca el bucle de animación si no está corriendo
+   */
+  private start(): void {
+    if (this.frame !== null) return;
+
+    this.lastFrameTime = performance.now();
+    this.frame = requestAnimationFrame((time) => this.animate(time));
+  }
+
+  /**
+   * Avanza y dibuja un fotograma; se detiene cuando no quedan efectos
+   */
+  private animate(time: number): void {
+    const context = this.context!;
+    const dt = Math.min(time - this.lastFrameTime, 50);
+    this.lastFrameTime = time;
+
+    const level = this.getLevel();
+
+    context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    context.globalCompositeOperation = 'lighter';
+
+    this.ripples = this.ripples.filter(ripple => {
+      ripple.age += dt;
+      const t = ripple.age / ripple.life;
+      if (t >= 1) return false;
+
+      context.beginPath();
+      context.arc(ripple.x, ripple.y, ripple.maxRadius * (1 - Math.pow(1 - t, 3)), 0, Math.PI * 2);
+      context.strokeStyle = `hsla(${ripple.hue}, 80%, ${ripple.lightness}%, ${(1 - t) * (0.3 + 0.5 * level)})`;
+      context.lineWidth = 2;
+      context.stroke();
+      return true;
+    });
+
+    this.particles = this.particles.filter(particle => {
+      particle.age += dt;
+      const t = particle.age / particle.life;
+      if (t >= 1) return false;
+
+      const seconds = dt / 1000;
+      particle.vy += particle.gravity * seconds;
+      particle.x += particle.vx * seconds;
+      particle.y += particle.vy * seconds;
+
+      context.beginPath();
+      context.arc(particle.x, particle.y, particle.size * (1 + level), 0, Math.PI * 2);
+      context.fillStyle = `hsla(${particle.hue}, 90%, ${particle.lightness}%, ${(1 - t) * (0.4 + 0.6 * level)})`;
+      context.fill();
+      return true;
+    });
+
+    context.globalCompositeOperation = 'source-over';
+
+    if (this.ripples.length === 0 && this.particles.length === 0) {
+      this.frame = null;
+      return;
+    }
+
+    this.frame = requestAnimationFrame((next) => this.animate(next));
+  }
+
+  /**
+   * Nivel actual de la salida de audio (0-1); 0.5 si no hay medidor
+   */
+  private getLevel(): number {
+    if (!this.meter) return 0.5;
+
+    const value = this.meter.getValue();
+    const level = Array.isArray(value) ? Math.max(...value) : value;
+    return Math.min(1, level * LEVEL_GAIN);
+  }
+
+  /**
+   * Ajusta el canvas al tamaño de la ventana (con la densidad de píxeles de la pantalla)
+   */
+  private resize(): void {
+    const ratio = window.devicePixelRatio || 1;
+    this.canvas.width = Math.round(window.innerWidth * ratio);
+    this.canvas.height = Math.round(window.innerHeight * ratio);
+    this.context?.setTransform(ratio, 0, 0, ratio, 0, 0);
+  }
+
+  /**
+   * Indica si el sistema pide reducir las animaciones
+   */
+  private prefersReducedMotion(): boolean {
+    return window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+  }
+
+  /**
+   * Cambia la configuración (al desactivarlos se borran los efectos en curso)
+   */
+  updateConfig(config: Partial<VisualEffectsConfig>): void {
+    this.config = { ...this.config, ...config };
+
+    if (!this.config.enabled) {
+      this.particles = [];
+      this.ripples = [];
+    }
+  }
+
+  /**
+   * Obtiene la configuración actual
+   */
+  getConfig(): VisualEffectsConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Detiene la animación y libera el canvas y el medidor
+   */
+  dispose(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.meter?.dispose();
+    this.meter = null;
+    this.canvas.remove();
+  }
+}
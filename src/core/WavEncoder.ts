@@ -0,0 +1,72 @@
+import type { WavBitDepth } from '../types';
+
+/**
+ * WavEncoder
+ *
+ * Codifica un AudioBuffer como archivo WAV PCM entrelazado de 16 o 24 bits.
+ */
+export class WavEncoder {
+  /**
+   * Codifica el buffer completo en un blob audio/wav
+   */
+  static encode(buffer: AudioBuffer, bitDepth: WavBitDepth): Blob {
+    const channels = buffer.numberOfChannels;
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = channels * bytesPerSample;
+    const dataSize = buffer.length * blockAlign;
+
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+    // Cabecera RIFF
+    this.writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    this.writeString(view, 8, 'WAVE');
+
+    // Bloque de formato (PCM)
+    this.writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, channels, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+
+    // Bloque de datos
+    this.writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const channelData = Array.from({ length: channels }, (_, i) => buffer.getChannelData(i));
+    const maxValue = Math.pow(2, bitDepth - 1) - 1;
+    let offset = 44;
+
+    for (let i = 0; i < buffer.length; i++) {
+      for (let channel = 0; channel < channels; channel++) {
+        const sample = Math.max(-1, Math.min(1, channelData[channel][i]));
+        const value = Math.round(sample * maxValue);
+
+        if (bitDepth === 16) {
+          view.setInt16(offset, value, true);
+        } else {
+          // 24 bits little-endian: se escriben los tres bytes bajos
+          view.setUint8(offset, value & 0xff);
+          view.setUint8(offset + 1, (value >> 8) & 0xff);
+          view.setUint8(offset + 2, (value >> 16) & 0xff);
+        }
+
+        offset += bytesPerSample;
+      }
+    }
+
+    return new Blob([view.buffer], { type: 'audio/wav' });
+  }
+
+  /**
+   * Escribe una cadena ASCII en la posición indicada
+   */
+  private static writeString(view: DataView, offset: number, text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  }
+}
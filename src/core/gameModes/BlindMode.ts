@@ -0,0 +1,30 @@
+import type { GameSummary, TextCompletion, TypingStatsSnapshot } from '../../types';
+import type { GameModeDefinition, GameModeSession } from '../GameModeRegistry';
+import { createSummary } from './createSummary';
+
+/**
+ * Modo a ciegas - Solo se ve la letra actual; el resto aparece al teclearlo
+ */
+class BlindSession implements GameModeSession {
+  readonly hideUpcoming = true;
+  readonly countsErrors = true;
+
+  onSignal(): void {}
+
+  onTextComplete(): TextCompletion {
+    return 'finish';
+  }
+
+  getSummary(snapshot: TypingStatsSnapshot): GameSummary {
+    return createSummary('Blind run', snapshot);
+  }
+
+  dispose(): void {}
+}
+
+export const BlindMode: GameModeDefinition = {
+  id: 'blind',
+  label: 'Blind',
+  description: 'Upcoming letters stay hidden until you type them',
+  create: () => new BlindSession()
+};
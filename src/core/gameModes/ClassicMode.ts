@@ -0,0 +1,30 @@
+import type { GameSummary, TextCompletion, TypingStatsSnapshot } from '../../types';
+import type { GameModeDefinition, GameModeSession } from '../GameModeRegistry';
+import { createSummary } from './createSummary';
+
+/**
+ * Modo clásico - Un texto de principio a fin
+ */
+class ClassicSession implements GameModeSession {
+  readonly hideUpcoming = false;
+  readonly countsErrors = true;
+
+  onSignal(): void {}
+
+  onTextComplete(): TextCompletion {
+    return 'finish';
+  }
+
+  getSummary(snapshot: TypingStatsSnapshot): GameSummary {
+    return createSummary('Summary', snapshot);
+  }
+
+  dispose(): void {}
+}
+
+export const ClassicMode: GameModeDefinition = {
+  id: 'classic',
+  label: 'Classic',
+  description: 'Type the whole text from start to finish',
+  create: () => new ClassicSession()
+};
@@ -0,0 +1,89 @@
+import type { AudioSignal, GameSummary, TextCompletion, TypingStatsSnapshot } from '../../types';
+import type { GameModeDefinition, GameModeHost, GameModeSession } from '../GameModeRegistry';
+import { formatDuration, formatPercent } from '../../utils/format';
+
+/**
+ * Duración de un sprint (ms)
+ */
+const SPRINT_DURATION_MS = 60000;
+
+/**
+ * Modo sprint - Cuenta atrás desde la primera tecla; los textos se
+ * encadenan hasta que se acaba el tiempo
+ */
+class SprintSession implements GameModeSession {
+  readonly hideUpcoming = false;
+  readonly countsErrors = true;
+  private host: GameModeHost;
+  private endTime: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(host: GameModeHost) {
+    this.host = host;
+    this.host.setStatus(`Sprint · ${formatDuration(SPRINT_DURATION_MS)}`);
+  }
+
+  onSignal(signal: AudioSignal): void {
+    if (this.endTime !== null) return;
+
+    // El tiempo empieza a contar con la primera tecla
+    this.endTime = signal.timestamp + SPRINT_DURATION_MS;
+    this.timer = setInterval(() => this.tick(), 250);
+  }
+
+  /**
+   * Actualiza la cuenta atrás y termina al llegar a cero
+   */
+  private tick(): void {
+    const remaining = Math.max(this.endTime! - Date.now(), 0);
+    this.host.setStatus(`Sprint · ${formatDuration(Math.ceil(remaining / 1000) * 1000)}`);
+
+    if (remaining === 0) {
+      this.stopTimer();
+      this.host.finish();
+    }
+  }
+
+  onTextComplete(): TextCompletion {
+    return 'next';
+  }
+
+  getSummary(snapshot: TypingStatsSnapshot): GameSummary {
+    // Si se acabó el tiempo, WPM sobre la duración completa y no hasta la última tecla
+    const timeUp = this.endTime !== null && Date.now() >= this.endTime;
+    const wpm = timeUp ? snapshot.wpm * snapshot.elapsedMs / SPRINT_DURATION_MS : snapshot.wpm;
+
+    return {
+      title: timeUp ? 'Time\'s up!' : 'Sprint stopped',
+      highlights: [
+        { label: 'score', value: String(snapshot.correctKeystrokes) },
+        { label: 'WPM', value: String(Math.round(wpm)) },
+        { label: 'accuracy', value: formatPercent(snapshot.accuracy) }
+      ],
+      showErrors: true,
+      showBlocks: false
+    };
+  }
+
+  /**
+   * Detiene la cuenta atrás
+   */
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  dispose(): void {
+    this.stopTimer();
+    this.host.setStatus(null);
+  }
+}
+
+export const SprintMode: GameModeDefinition = {
+  id: 'sprint',
+  label: 'Sprint (60 s)',
+  description: 'Type as much as you can before the countdown ends',
+  create: (host) => new SprintSession(host)
+};
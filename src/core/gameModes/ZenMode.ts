@@ -0,0 +1,49 @@
+import type { GameSummary, TextCompletion, TypingStatsSnapshot } from '../../types';
+import type { GameModeDefinition, GameModeHost, GameModeSession } from '../GameModeRegistry';
+import { formatDuration } from '../../utils/format';
+
+/**
+ * Modo zen - Sin errores ni final: los textos se encadenan hasta pulsar Escape
+ */
+class ZenSession implements GameModeSession {
+  readonly hideUpcoming = false;
+  readonly countsErrors = false;
+  private host: GameModeHost;
+  private textsCompleted: number = 0;
+
+  constructor(host: GameModeHost) {
+    this.host = host;
+    this.host.setStatus('Zen · Esc to stop');
+  }
+
+  onSignal(): void {}
+
+  onTextComplete(): TextCompletion {
+    this.textsCompleted++;
+    return 'next';
+  }
+
+  getSummary(snapshot: TypingStatsSnapshot): GameSummary {
+    return {
+      title: 'Zen session',
+      highlights: [
+        { label: 'letters', value: String(snapshot.correctKeystrokes) },
+        { label: 'texts', value: String(this.textsCompleted) },
+        { label: 'total', value: formatDuration(snapshot.elapsedMs) }
+      ],
+      showErrors: false,
+      showBlocks: false
+    };
+  }
+
+  dispose(): void {
+    this.host.setStatus(null);
+  }
+}
+
+export const ZenMode: GameModeDefinition = {
+  id: 'zen',
+  label: 'Zen',
+  description: 'No errors counted, texts loop endlessly (Esc to stop)',
+  create: (host) => new ZenSession(host)
+};
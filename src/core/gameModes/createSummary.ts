@@ -0,0 +1,18 @@
+import type { GameSummary, TypingStatsSnapshot } from '../../types';
+import { formatDuration, formatPercent } from '../../utils/format';
+
+/**
+ * Pantalla final estándar: WPM, precisión y tiempo total
+ */
+export function createSummary(title: string, snapshot: TypingStatsSnapshot): GameSummary {
+  return {
+    title,
+    highlights: [
+      { label: 'WPM', value: String(Math.round(snapshot.wpm)) },
+      { label: 'accuracy', value: formatPercent(snapshot.accuracy) },
+      { label: 'total', value: formatDuration(snapshot.elapsedMs) }
+    ],
+    showErrors: true,
+    showBlocks: true
+  };
+}
@@ -0,0 +1,14 @@
+import { GameModeRegistry } from '../GameModeRegistry';
+import { ClassicMode } from './ClassicMode';
+import { SprintMode } from './SprintMode';
+import { ZenMode } from './ZenMode';
+import { BlindMode } from './BlindMode';
+
+/**
+ * Registra los modos de juego incluidos (en el orden del selector; el primero es el de por defecto)
+ */
+export function registerBuiltInGameModes(): void {
+  [ClassicMode, SprintMode, ZenMode, BlindMode]
+    .filter(mode => !GameModeRegistry.has(mode.id))
+    .forEach(mode => GameModeRegistry.register(mode));
+}
@@ -0,0 +1,46 @@
+import * as Tone from 'tone';
+import type { AudioConfig, AudioSignal } from '../../types';
+import type { SynthesisModeDefinition, SynthesisModeOptions, SynthesisModeVoice } from '../SynthesisModeRegistry';
+import { getPitchStep } from '../../utils/characterMapping';
+import { createModeSynth } from './createModeSynth';
+import { PENTATONIC_SCALE } from './PentatonicMode';
+import { Tuning } from '../Tuning';
+
+/**
+ * Modo ambiental - Sonidos largos y atmosféricos
+ */
+class AmbientVoice implements SynthesisModeVoice {
+  private synth: Tone.PolySynth;
+
+  constructor(options: SynthesisModeOptions) {
+    this.synth = createModeSynth(options);
+  }
+
+  play(signal: AudioSignal, velocity: number, time: number, config: AudioConfig): void {
+    const frequency = this.getFrequency(signal, config);
+
+    // Duración mucho más larga para crear atmósfera
+    const duration = '2n';
+    const vol = -20 + (velocity * 8);
+
+    this.synth.triggerAttackRelease(frequency, duration, time, Math.pow(10, vol / 20));
+  }
+
+  getFrequency(signal: AudioSignal, config: AudioConfig): number {
+    const step = getPitchStep(signal, config.characterPitch);
+    const octave = config.baseOctave - 1; // Una octava más baja
+
+    return Tuning.getScaleFrequency(step, octave, config, PENTATONIC_SCALE);
+  }
+
+  dispose(): void {
+    this.synth.dispose();
+  }
+}
+
+export const AmbientMode: SynthesisModeDefinition = {
+  id: 'ambient',
+  label: 'Ambient',
+  hue: 220,
+  create: (options) => new AmbientVoice(options)
+};
@@ -0,0 +1,230 @@
+import * as Tone from 'tone';
+import type { AudioConfig, AudioSignal } from '../../types';
+import type { SynthesisModeDefinition, SynthesisModeOptions, SynthesisModeVoice } from '../SynthesisModeRegistry';
+import { GrainEnvelope } from '../GrainEnvelope';
+import { getPitchStep } from '../../utils/characterMapping';
+
+/**
+ * Duración base de la nota (s): en el patch, [line] recorre la tabla en 1000 ms
+ */
+const ENVELOPE_TIME = 1.0;
+
+/**
+ * Frecuencia del oscilador del patch (osc~ 500): la fuente sinusoidal
+ * se graba a esta frecuencia y cada grano la transpone
+ */
+const SOURCE_FREQUENCY = 500;
+
+/**
+ * Frecuencia mínima del oscilador y del filtro (Hz)
+ */
+const MIN_FREQUENCY = 50;
+
+/**
+ * Ganancia del oscilador frente al ruido (*~ 0.1 en el patch)
+ */
+const OSCILLATOR_GAIN = 0.1;
+
+/**
+ * Rangos de los parámetros de los granos
+ */
+const GRAIN_SIZE = { min: 0.02, max: 0.12 };     // s, según la letra en la palabra
+const GRAIN_DENSITY = { min: 10, max: 40 };      // granos/s, según la palabra en el bloque
+const PITCH_JITTER = { min: 0.05, max: 1.5 };    // semitonos, según el bloque en el texto
+
+/**
+ * Granos que puede programar una tecla (cada uno crea dos fuentes): con las
+ * teclas rápidas se solapan varias nubes y el número de nodos se dispara
+ */
+const MAX_GRAINS_PER_KEY = 24;
+
+/**
+ * Parámetros de la nube de granos de una tecla
+ */
+interface GrainParameters {
+  size: number;
+  density: number;
+  jitter: number;
+}
+
+/**
+ * Modo granular (original Pure Data style)
+ *
+ * Síntesis granular fiel a previous/kt.pd: la fuente es la del patch
+ * (osc~ 500 a 0.1 y noise~ -> lop~) y la tabla "env" dibujada en el patch
+ * (ver GrainEnvelope) es a la vez la ventana de cada grano y la envolvente
+ * de la nota completa. La letra fija la frecuencia del oscilador y la palabra
+ * la del filtro, como en el patch.
+ *
+ * Cada grano es un AudioBufferSourceNode con su propia ganancia, programado
+ * en un tiempo explícito (sirve igual en vivo y en Tone.Offline). No se usa
+ * Tone.GrainPlayer porque sus granos tienen fundidos lineales fijos (no la
+ * tabla del patch) y todos la misma afinación; a cambio, cada tecla programa
+ * como mucho MAX_GRAINS_PER_KEY granos:
+ * - Tamaño: granos largos al principio de la palabra y cortos al final
+ * - Densidad: más granos por segundo al avanzar en el bloque
+ * - Desafinación aleatoria: crece al avanzar en el texto
+ */
+class GranularVoice implements SynthesisModeVoice {
+  private context: Tone.BaseContext;
+  private oscillatorBuffer: AudioBuffer;
+  private noiseBuffer: AudioBuffer;
+  private oscillatorGain: Tone.Gain;
+  private lowPassFilter: Tone.Filter;
+  private sources: Set<AudioBufferSourceNode> = new Set();
+
+  constructor({ context, output }: SynthesisModeOptions) {
+    this.context = context;
+
+    // Un segundo de cada fuente (500 ciclos exactos: el bucle no tiene saltos)
+    this.oscillatorBuffer = this.createBuffer(i => Math.sin(2 * Math.PI * SOURCE_FREQUENCY * i / context.sampleRate));
+    this.noiseBuffer = this.createBuffer(() => Math.random() * 2 - 1);
+
+    // Granos del oscilador -> *~ 0.1 -> Salida
+    this.oscillatorGain = new Tone.Gain({ context, gain: OSCILLATOR_GAIN });
+    this.oscillatorGain.connect(output);
+
+    // Granos de ruido -> Filtro low-pass (lop~ en PD) -> Salida
+    this.lowPassFilter = new Tone.Filter({
+      context,
+      type: 'lowpass',
+      frequency: 200,
+      rolloff: -12
+    });
+    this.lowPassFilter.connect(output);
+  }
+
+  play(signal: AudioSignal, velocity: number, time: number, config: AudioConfig): void {
+    const filterFrequency = signal.wordIndexInBlock * 200;
+    const finalFilterFreq = Math.max(filterFrequency, MIN_FREQUENCY);
+    const finalOscFreq = this.getFrequency(signal, config);
+
+    this.lowPassFilter.frequency.rampTo(finalFilterFreq, 0.01, time);
+
+    // Aplicar velocidad a la duración de la nota, como en el envelope original
+    const duration = ENVELOPE_TIME * (0.5 + (velocity * 0.5));
+    const { size, density, jitter } = this.getGrainParameters(signal);
+
+    const envelope = GrainEnvelope.get();
+    const count = Math.min(Math.max(1, Math.round(density * duration)), MAX_GRAINS_PER_KEY);
+
+    // Los granos se solapan: compensar para que el nivel no dependa de la densidad
+    const normalization = 1 / Math.max(1, Math.sqrt((count / duration) * size));
+
+    for (let i = 0; i < count; i++) {
+      const offset = ((i + Math.random()) / count) * duration;
+      const amplitude = this.readEnvelope(envelope, offset / duration) * normalization;
+      if (amplitude <= 0) continue;
+
+      const detune = (Math.random() * 2 - 1) * jitter;
+      const rate = (finalOscFreq / SOURCE_FREQUENCY) * Math.pow(2, detune / 12);
+
+      this.playGrain(this.oscillatorBuffer, this.oscillatorGain, time + offset, size, rate, amplitude, envelope);
+      this.playGrain(this.noiseBuffer, this.lowPassFilter, time + offset, size, 1, amplitude, envelope);
+    }
+  }
+
+  /**
+   * Frecuencia del oscilador: la letra elige el múltiplo de 200 Hz, como en el patch
+   */
+  getFrequency(signal: AudioSignal, config: AudioConfig): number {
+    return Math.max(getPitchStep(signal, config.characterPitch) * 200, MIN_FREQUENCY);
+  }
+
+  /**
+   * Tamaño, densidad y desafinación de los granos según la posición de la señal
+   */
+  private getGrainParameters(signal: AudioSignal): GrainParameters {
+    const letterProgress = this.progress(signal.letterIndexInWord, signal.totalLettersInWord);
+    const wordProgress = this.progress(signal.wordIndexInBlock, signal.totalWordsInBlock);
+    const textProgress = this.progress(signal.blockIndexInText, signal.totalBlocksInText);
+
+    return {
+      size: GRAIN_SIZE.max - (GRAIN_SIZE.max - GRAIN_SIZE.min) * letterProgress,
+      density: GRAIN_DENSITY.min + (GRAIN_DENSITY.max - GRAIN_DENSITY.min) * wordProgress,
+      jitter: PITCH_JITTER.min + (PITCH_JITTER.max - PITCH_JITTER.min) * textProgress
+    };
+  }
+
+  /**
+   * Posición relativa (0-1) de un índice en un total
+   */
+  private progress(index: number, total: number): number {
+    return total > 1 ? index / (total - 1) : 0;
+  }
+
+  /**
+   * Lee la tabla en una posición relativa (0-1) interpolando entre puntos
+   */
+  private readEnvelope(envelope: Float32Array, position: number): number {
+    const index = Math.min(Math.max(position, 0), 1) * (envelope.length - 1);
+    const lower = Math.floor(index);
+    const upper = Math.min(lower + 1, envelope.length - 1);
+    return envelope[lower] + (envelope[upper] - envelope[lower]) * (index - lower);
+  }
+
+  /**
+   * Programa un grano: un fragmento de la fuente con la tabla como ventana
+   */
+  private playGrain(
+    buffer: AudioBuffer,
+    destination: Tone.InputNode,
+    time: number,
+    size: number,
+    rate: number,
+    amplitude: number,
+    envelope: Float32Array
+  ): void {
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.playbackRate.value = rate;
+
+    const window = this.context.createGain();
+    window.gain.value = 0;
+    window.gain.setValueCurveAtTime(envelope.map(value => value * amplitude), time, size);
+
+    source.connect(window);
+    Tone.connect(window, destination);
+
+    source.onended = () => {
+      window.disconnect();
+      this.sources.delete(source);
+    };
+    this.sources.add(source);
+
+    source.start(time, Math.random() * buffer.duration);
+    source.stop(time + size);
+  }
+
+  /**
+   * Crea un buffer mono de un segundo a partir de una función de la muestra
+   */
+  private createBuffer(sample: (index: number) => number): AudioBuffer {
+    const length = Math.round(this.context.sampleRate);
+    const buffer = this.context.createBuffer(1, length, this.context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < length; i++) {
+      data[i] = sample(i);
+    }
+    return buffer;
+  }
+
+  dispose(): void {
+    this.sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    });
+    this.sources.clear();
+    this.oscillatorGain.dispose();
+    this.lowPassFilter.dispose();
+  }
+}
+
+export const GranularMode: SynthesisModeDefinition = {
+  id: 'granular',
+  label: 'Granular (Original)',
+  hue: 190,
+  create: (options) => new GranularVoice(options)
+};
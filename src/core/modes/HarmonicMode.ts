@@ -0,0 +1,53 @@
+import * as Tone from 'tone';
+import type { AudioConfig, AudioSignal } from '../../types';
+import type { SynthesisModeDefinition, SynthesisModeOptions, SynthesisModeVoice } from '../SynthesisModeRegistry';
+import { calculateDuration } from '../../utils/velocity';
+import { getPitchStep } from '../../utils/characterMapping';
+import { createModeSynth } from './createModeSynth';
+import { Tuning } from '../Tuning';
+
+/**
+ * Serie armónica natural (múltiplos de la fundamental)
+ */
+const HARMONIC_SERIES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+/**
+ * Modo armónico - Serie armónica natural sobre la tónica
+ * (una octava por debajo de las letras: Do2 por defecto)
+ */
+class HarmonicVoice implements SynthesisModeVoice {
+  private synth: Tone.PolySynth;
+
+  constructor(options: SynthesisModeOptions) {
+    this.synth = createModeSynth(options);
+  }
+
+  play(signal: AudioSignal, velocity: number, time: number, config: AudioConfig): void {
+    const frequency = this.getFrequency(signal, config);
+
+    const duration = calculateDuration(velocity);
+    const vol = -18 + (velocity * 12);
+
+    this.synth.triggerAttackRelease(frequency, duration, time, Math.pow(10, vol / 20));
+  }
+
+  getFrequency(signal: AudioSignal, config: AudioConfig): number {
+    const harmonic = HARMONIC_SERIES[getPitchStep(signal, config.characterPitch) % HARMONIC_SERIES.length];
+
+    // Añadir modulación basada en la palabra
+    const wordModulation = 1 + (signal.wordIndexInBlock * 0.05);
+    const fundamental = Tuning.getRootFrequency(config.baseOctave - 1, config);
+    return fundamental * harmonic * wordModulation;
+  }
+
+  dispose(): void {
+    this.synth.dispose();
+  }
+}
+
+export const HarmonicMode: SynthesisModeDefinition = {
+  id: 'harmonic',
+  label: 'Harmonic Series',
+  hue: 45,
+  create: (options) => new HarmonicVoice(options)
+};
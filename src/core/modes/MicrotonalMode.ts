@@ -0,0 +1,51 @@
+import * as Tone from 'tone';
+import type { AudioConfig, AudioSignal } from '../../types';
+import type { SynthesisModeDefinition, SynthesisModeOptions, SynthesisModeVoice } from '../SynthesisModeRegistry';
+import { calculateDuration } from '../../utils/velocity';
+import { getPitchStep } from '../../utils/characterMapping';
+import { createModeSynth } from './createModeSynth';
+import { Tuning } from '../Tuning';
+
+/**
+ * Escala en cuartos de tono (semitonos MIDI fraccionarios)
+ */
+const MICROTONAL_SCALE = [0, 1.5, 3, 4.5, 6, 7.5, 9, 10.5];
+
+/**
+ * Modo microtonal - Escala en cuartos de tono
+ */
+class MicrotonalVoice implements SynthesisModeVoice {
+  private synth: Tone.PolySynth;
+
+  constructor(options: SynthesisModeOptions) {
+    this.synth = createModeSynth(options);
+  }
+
+  play(signal: AudioSignal, velocity: number, time: number, config: AudioConfig): void {
+    const frequency = this.getFrequency(signal, config);
+
+    const duration = calculateDuration(velocity);
+    const vol = -16 + (velocity * 10);
+
+    this.synth.triggerAttackRelease(frequency, duration, time, Math.pow(10, vol / 20));
+  }
+
+  getFrequency(signal: AudioSignal, config: AudioConfig): number {
+    const step = getPitchStep(signal, config.characterPitch);
+    const octaveOffset = Math.floor(signal.wordIndexInBlock / 4);
+    const octave = config.baseOctave + octaveOffset;
+
+    return Tuning.getScaleFrequency(step, octave, config, MICROTONAL_SCALE);
+  }
+
+  dispose(): void {
+    this.synth.dispose();
+  }
+}
+
+export const MicrotonalMode: SynthesisModeDefinition = {
+  id: 'microtonal',
+  label: 'Microtonal',
+  hue: 290,
+  create: (options) => new MicrotonalVoice(options)
+};
@@ -0,0 +1,52 @@
+import * as Tone from 'tone';
+import type { AudioConfig, AudioSignal } from '../../types';
+import type { SynthesisModeDefinition, SynthesisModeOptions, SynthesisModeVoice } from '../SynthesisModeRegistry';
+import { calculateDuration } from '../../utils/velocity';
+import { getPitchStep } from '../../utils/characterMapping';
+import { createModeSynth } from './createModeSynth';
+import { Tuning } from '../Tuning';
+
+/**
+ * Escala pentatónica mayor
+ */
+export const PENTATONIC_SCALE = [0, 2, 4, 7, 9];
+
+/**
+ * Modo pentatónico - Escala musical pentatónica mayor
+ * (la escala y la afinación pueden cambiarse en la configuración, ver Tuning)
+ */
+class PentatonicVoice implements SynthesisModeVoice {
+  private synth: Tone.PolySynth;
+
+  constructor(options: SynthesisModeOptions) {
+    this.synth = createModeSynth(options);
+  }
+
+  play(signal: AudioSignal, velocity: number, time: number, config: AudioConfig): void {
+    const frequency = this.getFrequency(signal, config);
+
+    const duration = calculateDuration(velocity);
+    const vol = -15 + (velocity * 10);
+
+    this.synth.triggerAttackRelease(frequency, duration, time, Math.pow(10, vol / 20));
+  }
+
+  getFrequency(signal: AudioSignal, config: AudioConfig): number {
+    const step = getPitchStep(signal, config.characterPitch);
+    const octaveOffset = Math.floor(signal.wordIndexInBlock / 5);
+    const octave = config.baseOctave + octaveOffset;
+
+    return Tuning.getScaleFrequency(step, octave, config, PENTATONIC_SCALE);
+  }
+
+  dispose(): void {
+    this.synth.dispose();
+  }
+}
+
+export const PentatonicMode: SynthesisModeDefinition = {
+  id: 'pentatonic',
+  label: 'Pentatonic Scale',
+  hue: 150,
+  create: (options) => new PentatonicVoice(options)
+};
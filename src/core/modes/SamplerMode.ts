@@ -0,0 +1,167 @@
+import * as Tone from 'tone';
+import type { AudioConfig, AudioSignal, SamplePack } from '../../types';
+import type { SynthesisModeDefinition, SynthesisModeOptions, SynthesisModeVoice } from '../SynthesisModeRegistry';
+import { SamplePackLibrary } from '../SamplePackLibrary';
+import { calculateDuration } from '../../utils/velocity';
+import { getBaseLetter, getPitchStep } from '../../utils/characterMapping';
+import { createModeSynth } from './createModeSynth';
+import { PENTATONIC_SCALE } from './PentatonicMode';
+import { Tuning } from '../Tuning';
+
+/**
+ * Nota MIDI de la primera muestra: cada clave del paquete ocupa una nota
+ * propia y se toca exactamente en ella, así que el Sampler no la transpone
+ */
+const SAMPLE_BASE_NOTE = 36;
+
+/**
+ * Sampler de un paquete en este motor (sin Sampler mientras se decodifica)
+ */
+interface PackSampler {
+  pack: SamplePack;
+  loading: Promise<void>;
+  sampler: Tone.Sampler | null;
+  notes: Map<string, number>;     // Clave del manifiesto -> nota MIDI del Sampler
+  durations: Map<string, number>; // Clave del manifiesto -> duración de la muestra (s)
+  keys: string[];                 // Claves en orden (los grados, de menor a mayor)
+}
+
+/**
+ * Modo de muestras - Un Tone.Sampler con el paquete elegido
+ *
+ * Según el manifiesto del paquete, cada letra suena con su propia muestra
+ * o el grado de la escala (ver getPitchStep) elige la muestra de su grado.
+ * Mientras el paquete se decodifica, o si no tiene muestra para una letra,
+ * suena la escala pentatónica sintetizada.
+ */
+class SamplerVoice implements SynthesisModeVoice {
+  private options: SynthesisModeOptions;
+  private fallbackSynth: Tone.PolySynth;
+  private samplers: Map<string, PackSampler> = new Map();
+  private disposed: boolean = false;
+
+  constructor(options: SynthesisModeOptions) {
+    this.options = options;
+    this.fallbackSynth = createModeSynth(options);
+  }
+
+  play(signal: AudioSignal, velocity: number, time: number, config: AudioConfig): void {
+    const vol = -15 + (velocity * 10);
+    const pack = SamplePackLibrary.resolve(config.samplePack);
+    const entry = pack ? this.getPackSampler(pack) : null;
+
+    const key = entry?.sampler ? this.getSampleKey(entry, signal, config) : null;
+    if (entry?.sampler && key !== null) {
+      const note = Tone.Frequency(entry.notes.get(key)!, 'midi').toFrequency();
+      entry.sampler.triggerAttackRelease(note, entry.durations.get(key)!, time, Math.pow(10, vol / 20));
+      return;
+    }
+
+    this.playFallback(signal, velocity, time, config, vol);
+  }
+
+  /**
+   * Nota de la escala de la alternativa sintetizada (las muestras no declaran su altura)
+   */
+  getFrequency(signal: AudioSignal, config: AudioConfig): number {
+    const step = getPitchStep(signal, config.characterPitch);
+    const octave = config.baseOctave + Math.floor(signal.wordIndexInBlock / 5);
+    return Tuning.getScaleFrequency(step, octave, config, PENTATONIC_SCALE);
+  }
+
+  async prepare(config: AudioConfig): Promise<void> {
+    const pack = SamplePackLibrary.resolve(config.samplePack);
+    if (pack) {
+      await this.getPackSampler(pack).loading;
+    }
+  }
+
+  /**
+   * Sampler de un paquete; empieza a cargarlo la primera vez (o si el paquete
+   * local se ha vuelto a cargar)
+   */
+  private getPackSampler(pack: SamplePack): PackSampler {
+    const existing = this.samplers.get(pack.id);
+    if (existing?.pack === pack) return existing;
+    existing?.sampler?.dispose();
+
+    const entry: PackSampler = {
+      pack,
+      loading: Promise.resolve(),
+      sampler: null,
+      notes: new Map(),
+      durations: new Map(),
+      keys: []
+    };
+
+    entry.loading = SamplePackLibrary.load(pack.id)
+      .then(buffers => {
+        if (this.disposed || this.samplers.get(pack.id) !== entry) return;
+        this.createSampler(entry, buffers);
+      })
+      .catch(error => console.warn(`Could not load sample pack ${pack.name}`, error));
+
+    this.samplers.set(pack.id, entry);
+    return entry;
+  }
+
+  /**
+   * Construye el Sampler con una nota por clave
+   */
+  private createSampler(entry: PackSampler, buffers: Map<string, AudioBuffer>): void {
+    const keys = Array.from(buffers.keys()).sort((a, b) =>
+      entry.pack.mapping === 'degrees' ? parseInt(a, 10) - parseInt(b, 10) : a.localeCompare(b)
+    );
+
+    const urls: Record<number, AudioBuffer> = {};
+    keys.forEach((key, i) => {
+      const buffer = buffers.get(key)!;
+      urls[SAMPLE_BASE_NOTE + i] = buffer;
+      entry.notes.set(key, SAMPLE_BASE_NOTE + i);
+      entry.durations.set(key, buffer.duration);
+    });
+    entry.keys = keys;
+
+    entry.sampler = new Tone.Sampler({ context: this.options.context, urls, release: 0.3 });
+    entry.sampler.connect(this.options.output);
+  }
+
+  /**
+   * Clave del paquete para una señal (null si el paquete no tiene muestra para ella)
+   */
+  private getSampleKey(entry: PackSampler, signal: AudioSignal, config: AudioConfig): string | null {
+    if (entry.pack.mapping === 'degrees') {
+      const step = getPitchStep(signal, config.characterPitch);
+      return entry.keys[step % entry.keys.length];
+    }
+
+    const character = signal.character.toLowerCase();
+    if (entry.notes.has(character)) return character;
+
+    const base = getBaseLetter(signal.character);
+    return entry.notes.has(base) ? base : null;
+  }
+
+  /**
+   * Nota sintetizada de la escala pentatónica (mientras carga o si falta la muestra)
+   */
+  private playFallback(signal: AudioSignal, velocity: number, time: number, config: AudioConfig, vol: number): void {
+    const frequency = this.getFrequency(signal, config);
+
+    this.fallbackSynth.triggerAttackRelease(frequency, calculateDuration(velocity), time, Math.pow(10, vol / 20));
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.samplers.forEach(entry => entry.sampler?.dispose());
+    this.samplers.clear();
+    this.fallbackSynth.dispose();
+  }
+}
+
+export const SamplerMode: SynthesisModeDefinition = {
+  id: 'sampler',
+  label: 'Sample Pack',
+  hue: 20,
+  create: (options) => new SamplerVoice(options)
+};
@@ -0,0 +1,25 @@
+import * as Tone from 'tone';
+import type { SynthesisModeOptions } from '../SynthesisModeRegistry';
+
+/**
+ * Sintetizador polifónico sinusoidal que comparten los modos musicales,
+ * ya conectado a la salida del modo
+ */
+export function createModeSynth({ context, output }: SynthesisModeOptions): Tone.PolySynth {
+  const synth = new Tone.PolySynth({
+    context,
+    voice: Tone.Synth,
+    options: {
+      oscillator: { type: 'sine' },
+      envelope: {
+        attack: 0.01,
+        decay: 0.3,
+        sustain: 0.3,
+        release: 0.7
+      }
+    }
+  });
+
+  synth.connect(output);
+  return synth;
+}
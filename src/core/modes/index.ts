@@ -0,0 +1,16 @@
+import { SynthesisModeRegistry } from '../SynthesisModeRegistry';
+import { GranularMode } from './GranularMode';
+import { PentatonicMode } from './PentatonicMode';
+import { HarmonicMode } from './HarmonicMode';
+import { MicrotonalMode } from './MicrotonalMode';
+import { AmbientMode } from './AmbientMode';
+import { SamplerMode } from './SamplerMode';
+
+/**
+ * Registra los modos de síntesis incluidos (en el orden del selector)
+ */
+export function registerBuiltInModes(): void {
+  [GranularMode, PentatonicMode, HarmonicMode, MicrotonalMode, AmbientMode, SamplerMode]
+    .filter(mode => !SynthesisModeRegistry.has(mode.id))
+    .forEach(mode => SynthesisModeRegistry.register(mode));
+}
@@ -1,13 +1,50 @@
 import './style.css';
 import { TextParser } from './core/TextParser';
-import { KeyboardController } from './core/KeyboardController';
+import { KeyboardController, DEFAULT_TYPING_OPTIONS } from './core/KeyboardController';
 import { AudioEngine } from './core/AudioEngine';
+import { EventBus } from './core/EventBus';
+import { BOUNDARY_EVENTS } from './core/TypingSignals';
 import { AudioUI } from './core/AudioUI';
 import { TextDisplay } from './core/TextDisplay';
-import type { AudioSignal, TypingState } from './types';
+import { ViewportManager } from './core/ViewportManager';
+import { VisualEffects } from './core/VisualEffects';
+import { TextLibrary } from './core/TextLibrary';
+import { TextSelector } from './core/TextSelector';
+import { TypingStats } from './core/TypingStats';
+import { StatsOverlay } from './core/StatsOverlay';
+import type { SummaryAction } from './core/StatsOverlay';
+import { SessionRecorder } from './core/SessionRecorder';
+import { SessionPlayer } from './core/SessionPlayer';
+import { OfflineRenderer } from './core/OfflineRenderer';
+import { OscBridge } from './core/OscBridge';
+import { MidiOutput } from './core/MidiOutput';
+import { registerBuiltInModes } from './core/modes';
+import { GameModeRegistry } from './core/GameModeRegistry';
+import type { GameModeSession } from './core/GameModeRegistry';
+import { registerBuiltInGameModes } from './core/gameModes';
+import { PreferencesStore } from './core/PreferencesStore';
+import { downloadBlob } from './utils/download';
+import type {
+  AudioSignal,
+  TypingState,
+  TextEntry,
+  TypingOptions,
+  SessionRecording,
+  WavBitDepth,
+  SignalOutput,
+  GameModeId,
+  TypingEventMap
+} from './types';
 
-// Importar el texto
-import taleText from './data/texts/tale.txt?raw';
+/**
+ * Tiempo máximo que se muestra el resumen antes de reiniciar (ms)
+ */
+const SUMMARY_DURATION_MS = 15000;
+
+/**
+ * Pausa antes de pasar al siguiente texto en los modos que los encadenan (ms)
+ */
+const NEXT_TEXT_DELAY_MS = 800;
 
 /**
  * Aplicación principal - Keyboard Tale
@@ -15,8 +52,26 @@ import taleText from './data/texts/tale.txt?raw';
 class KeyboardTaleApp {
   private audioEngine: AudioEngine;
   private audioUI: AudioUI | null = null;
+  private oscBridge: OscBridge;
+  private midiOutput: MidiOutput;
+  private signalOutputs: SignalOutput[];
+  private typingEvents: EventBus<TypingEventMap>;
   private keyboardController: KeyboardController | null = null;
   private textDisplay: TextDisplay | null = null;
+  private viewport: ViewportManager;
+  private visualEffects: VisualEffects;
+  private textSelector: TextSelector;
+  private typingStats: TypingStats;
+  private statsOverlay: StatsOverlay;
+  private sessionRecorder: SessionRecorder;
+  private sessionPlayer: SessionPlayer | null = null;
+  private replayRecording: SessionRecording | null = null;
+  private currentEntry: TextEntry;
+  private gameMode: GameModeId = '';
+  private gameSession: GameModeSession | null = null;
+  private isGameOver: boolean = false;
+  private preferences: PreferencesStore;
+  private typingOptions: TypingOptions = { ...DEFAULT_TYPING_OPTIONS };
   private textDisplayEl: HTMLElement;
   private mobileInputEl: HTMLInputElement | null = null;
   private isAudioInitialized: boolean = false;
@@ -26,8 +81,58 @@ class KeyboardTaleApp {
     this.textDisplayEl = document.getElementById('text-display') as HTMLElement;
     this.mobileInputEl = document.getElementById('mobile-input') as HTMLInputElement;
 
+    // Registrar los modos de síntesis antes de crear el motor y el panel
+    registerBuiltInModes();
+
+    // Registrar los modos de juego antes de crear el selector
+    registerBuiltInGameModes();
+
+    // Restaurar las preferencias guardadas antes de crear el motor
+    this.preferences = new PreferencesStore();
+    const saved = this.preferences.load();
+    if (saved) {
+      this.typingOptions = saved.typingOptions;
+    }
+
+    // Desplazamiento del texto para seguir al cursor
+    this.viewport = new ViewportManager(this.textDisplayEl, saved?.viewport);
+
+    // Efectos visuales detrás del texto
+    this.visualEffects = new VisualEffects(saved?.visualEffects);
+
     // Inicializar el motor de audio
-    this.audioEngine = new AudioEngine();
+    this.audioEngine = new AudioEngine(saved?.audioConfig);
+
+    // Aplicar volumen y efectos guardados igual que al cambiarlos en el panel
+    if (saved) {
+      this.audioEngine.updateConfig(saved.audioConfig);
+    }
+
+    // Salida OSC hacia sintetizadores externos (desactivada por defecto)
+    this.oscBridge = new OscBridge();
+
+    // Salida MIDI (sin dispositivo hasta elegirlo en el panel)
+    this.midiOutput = new MidiOutput();
+    this.signalOutputs = [this.oscBridge, this.midiOutput];
+
+    // Catálogo de textos y selector
+    this.currentEntry = TextLibrary.getDefault();
+    this.textSelector = new TextSelector(
+      TextLibrary.getAll(),
+      (entry: TextEntry, mode: GameModeId) => this.startGame(entry, mode),
+      (file: File) => this.loadRecording(file)
+    );
+
+    // Estadísticas de tecleado
+    this.typingStats = new TypingStats();
+    this.statsOverlay = new StatsOverlay();
+
+    // Grabación de la interpretación
+    this.sessionRecorder = new SessionRecorder();
+
+    // Eventos del tecleado (del controlador o de una reproducción)
+    this.typingEvents = new EventBus<TypingEventMap>();
+    this.subscribeToTypingEvents();
 
     // Configurar event listeners
     this.setupEventListeners();
@@ -37,11 +142,49 @@ class KeyboardTaleApp {
   }
 
   /**
-   * Inicializa la experiencia mostrando el primer bloque
+   * Inicializa la experiencia mostrando el selector de textos
    */
   private initialize(): void {
+    this.textSelector.show(this.currentEntry.id);
+  }
+
+  /**
+   * Empieza una partida del modo de juego elegido con el texto elegido
+   */
+  private startGame(entry: TextEntry, mode: GameModeId): void {
+    this.startGameSession(mode);
+    this.selectText(entry);
+  }
+
+  /**
+   * Crea la partida del modo de juego (el primero registrado si no existe),
+   * sustituyendo a la anterior, y reinicia las estadísticas
+   */
+  private startGameSession(mode: GameModeId): void {
+    this.gameSession?.dispose();
+
+    const definition = GameModeRegistry.get(mode) ?? GameModeRegistry.getAll()[0];
+    this.gameMode = definition.id;
+    this.gameSession = definition.create({
+      finish: () => this.finishGame(),
+      setStatus: (text: string | null) => this.statsOverlay.setStatus(text)
+    });
+    this.isGameOver = false;
+
+    this.typingStats.reset();
+  }
+
+  /**
+   * Carga el texto elegido en el selector y muestra el primer bloque
+   */
+  private selectText(entry: TextEntry): void {
+    this.currentEntry = entry;
+
     // Cargar y parsear el texto
-    this.loadText(taleText);
+    this.loadText(entry.content);
+
+    // Grabar la interpretación
+    this.sessionRecorder.start(entry, this.audioEngine.getConfig(), this.typingOptions);
 
     // Renderizar el primer bloque
     if (this.textDisplay) {
@@ -57,6 +200,75 @@ class KeyboardTaleApp {
     }
   }
 
+  /**
+   * Carga una grabación y la reproduce con sus tiempos originales
+   */
+  private async loadRecording(file: File): Promise<void> {
+    let recording: SessionRecording;
+    try {
+      recording = SessionRecorder.parse(await file.text());
+    } catch (error) {
+      this.textSelector.showError((error as Error).message);
+      return;
+    }
+
+    const entry = TextLibrary.get(recording.text.id);
+    if (!entry) {
+      this.textSelector.showError(`Text not found: ${recording.text.title}`);
+      return;
+    }
+
+    if (SessionRecorder.hashText(entry.content) !== recording.text.hash) {
+      console.warn('The text has changed since the session was recorded');
+    }
+
+    this.textSelector.hide();
+    await this.ensureAudioInitialized();
+
+    this.currentEntry = entry;
+    this.sessionRecorder.stop();
+
+    // Las grabaciones se reproducen como una partida clásica
+    this.startGameSession(GameModeRegistry.getAll()[0].id);
+
+    // Mostrar el texto con el modo de tecleado de la grabación
+    this.loadText(entry.content, { ...this.typingOptions, ...recording.typingOptions });
+
+    // Sonar con la configuración de audio de la grabación (la del usuario vuelve al terminar)
+    this.audioUI?.startReplay(recording.audioConfig);
+
+    this.textDisplay?.render();
+
+    this.replayRecording = recording;
+    this.sessionPlayer = new SessionPlayer(this.keyboardController!.getParsedText(), this.typingEvents);
+    this.sessionPlayer.play(recording);
+  }
+
+  /**
+   * Devuelve al motor la configuración del usuario tras reproducir una grabación
+   */
+  private restoreUserConfig(): void {
+    this.audioUI?.endReplay();
+  }
+
+  /**
+   * Inicializa el audio (y su panel) en la primera interacción del usuario
+   */
+  private async ensureAudioInitialized(): Promise<void> {
+    if (this.isAudioInitialized) return;
+
+    await this.audioEngine.initialize();
+    this.isAudioInitialized = true;
+
+    // El brillo de los efectos sigue al nivel de la salida de audio
+    this.visualEffects.setMeter(this.audioEngine.createMeter());
+
+    // Inicializar UI de audio
+    if (!this.audioUI) {
+      this.audioUI = this.createAudioUI();
+    }
+  }
+
   /**
    * Detecta si es un dispositivo móvil
    */
@@ -75,15 +287,32 @@ class KeyboardTaleApp {
         return;
       }
 
+      // Ignorar lo que se escribe o se elige en los controles de los paneles
+      const target = event.target;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLSelectElement ||
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLElement && target.isContentEditable)
+      ) {
+        return;
+      }
+
       // Inicializar audio en la primera interacción
-      if (!this.isAudioInitialized) {
-        await this.audioEngine.initialize();
-        this.isAudioInitialized = true;
+      await this.ensureAudioInitialized();
 
-        // Inicializar UI de audio
-        if (!this.audioUI) {
-          this.audioUI = new AudioUI(this.audioEngine);
+      // Mientras se elige el texto, las teclas pertenecen al selector
+      if (this.textSelector.isOpen()) return;
+
+      // Durante la reproducción de una grabación o tras terminar la partida no se teclea
+      if (this.sessionPlayer?.isPlaying() || this.isGameOver) return;
+
+      // Escape termina la partida en curso
+      if (event.key === 'Escape') {
+        if (this.keyboardController?.getState().isActive) {
+          this.finishGame();
         }
+        return;
       }
 
       // Iniciar el controlador si no está activo
@@ -91,11 +320,26 @@ class KeyboardTaleApp {
         this.keyboardController.start();
       }
 
+      // Backspace corrige; con Ctrl/Alt borra hasta el inicio de la palabra
+      if (event.key === 'Backspace') {
+        event.preventDefault();
+        this.handleBackspace(event.ctrlKey || event.altKey);
+        return;
+      }
+
       // Ignorar teclas especiales
       if (event.ctrlKey || event.altKey || event.metaKey) return;
-      if (event.key.length > 1) return; // Ignorar teclas como 'Shift', 'Enter', etc.
 
-      this.handleKeyPress(event.key);
+      // En modo estricto, Enter teclea el salto de línea
+      const key = this.typingOptions.strict && event.key === 'Enter' ? '\n' : event.key;
+      if (key.length > 1) return; // Ignorar teclas como 'Shift', 'Enter', etc.
+
+      // Evitar que el espacio y Enter desplacen la página o activen botones
+      if (this.typingOptions.strict && (key === ' ' || key === '\n')) {
+        event.preventDefault();
+      }
+
+      this.handleKeyPress(key);
     });
 
     // Mobile input: handle input events
@@ -105,17 +349,9 @@ class KeyboardTaleApp {
 
       // Inicializar audio y controlador en el primer focus del input
       this.mobileInputEl.addEventListener('focus', async () => {
-        if (!this.isAudioInitialized) {
-          await this.audioEngine.initialize();
-          this.isAudioInitialized = true;
-
-          // Inicializar UI de audio
-          if (!this.audioUI) {
-            this.audioUI = new AudioUI(this.audioEngine);
-          }
-        }
+        await this.ensureAudioInitialized();
 
-        if (this.keyboardController && !this.keyboardController.getState().isActive) {
+        if (this.keyboardController && !this.keyboardController.getState().isActive && !this.isGameOver) {
           this.keyboardController.start();
         }
       }, { once: true });
@@ -127,6 +363,13 @@ class KeyboardTaleApp {
       this.mobileInputEl.addEventListener('beforeinput', (event: Event) => {
         const inputEvent = event as InputEvent;
 
+        // El input siempre está vacío: los borrados se tratan como Backspace
+        if (inputEvent.inputType === 'deleteContentBackward' || inputEvent.inputType === 'deleteWordBackward') {
+          event.preventDefault();
+          this.handleBackspace(inputEvent.inputType === 'deleteWordBackward');
+          return;
+        }
+
         // Solo procesar si realmente hay datos del usuario
         if (inputEvent.data && inputEvent.data.length > 0) {
           const char = inputEvent.data[0];
@@ -148,6 +391,18 @@ class KeyboardTaleApp {
         }
       });
 
+      // Enter no genera beforeinput en un input de una línea,
+      // y Backspace tampoco cuando el input está vacío
+      this.mobileInputEl.addEventListener('keydown', (event) => {
+        if (event.key === 'Backspace') {
+          event.preventDefault();
+          this.handleBackspace(event.ctrlKey || event.altKey);
+        } else if (this.typingOptions.strict && event.key === 'Enter') {
+          event.preventDefault();
+          this.handleKeyPress('\n');
+        }
+      });
+
       // Fallback para navegadores que no soportan beforeinput
       this.mobileInputEl.addEventListener('input', () => {
         // Si beforeinput ya lo manejó, no hacer nada
@@ -198,21 +453,83 @@ class KeyboardTaleApp {
   /**
    * Carga y parsea el texto
    */
-  private loadText(text: string): void {
+  private loadText(text: string, typingOptions: TypingOptions = this.typingOptions): void {
+    // Detener una reproducción en curso
+    this.sessionPlayer?.stop();
+    this.sessionPlayer = null;
+    this.replayRecording = null;
+    this.restoreUserConfig();
+
+    // El nuevo controlador no emite 'reset': apagar el drone y la rejilla del texto anterior
+    this.audioEngine.reset();
+
     const parsedText = TextParser.parse(text);
 
+    // Aplicar tempo, modo por defecto y pistas de audio del texto
+    this.audioEngine.loadTextSettings(parsedText);
+    this.audioUI?.refresh();
+
+    // Ir decodificando las muestras que usará el texto (hasta entonces suena la alternativa sintetizada)
+    this.audioEngine.prepare().catch(error => console.warn('Could not prepare audio', error));
+
     // Crear el controlador de teclado
-    this.keyboardController = new KeyboardController(
-      parsedText,
-      (signal: AudioSignal) => this.handleAudioSignal(signal),
-      (state: TypingState) => this.handleStateChange(state),
-      () => this.handleComplete()
-    );
+    this.keyboardController = new KeyboardController(parsedText, this.typingEvents, typingOptions);
 
     // Crear el display de texto
-    this.textDisplay = new TextDisplay(this.textDisplayEl, parsedText);
+    this.viewport.reset();
+    this.textDisplay = new TextDisplay(this.textDisplayEl, parsedText, {
+      strict: typingOptions.strict,
+      hideUpcoming: this.gameSession?.hideUpcoming ?? false
+    }, this.viewport);
+
+    console.log('Text loaded:', this.currentEntry.metadata.title, parsedText);
+  }
+
+  /**
+   * Renderiza una grabación offline y la descarga como WAV
+   */
+  private async exportWav(recording: SessionRecording, bitDepth: WavBitDepth): Promise<void> {
+    const entry = TextLibrary.get(recording.text.id);
+    if (!entry) {
+      this.statsOverlay.setSummaryStatus(`WAV export failed: text not found (${recording.text.title})`, true);
+      return;
+    }
+
+    this.statsOverlay.setSummaryStatus(`Rendering ${bitDepth}-bit WAV…`);
+    try {
+      const wav = await OfflineRenderer.render(recording, TextParser.parse(entry.content), bitDepth);
+      downloadBlob(wav, `${SessionRecorder.fileBaseName(recording)}-${bitDepth}bit.wav`);
+      this.statsOverlay.setSummaryStatus(null);
+    } catch (error) {
+      console.error('WAV export failed:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      this.statsOverlay.setSummaryStatus(`WAV export failed: ${message}`, true);
+    }
+  }
 
-    console.log('Text loaded:', parsedText);
+  /**
+   * Crea el panel de configuración (audio y opciones de tecleado)
+   */
+  private createAudioUI(): AudioUI {
+    return new AudioUI(this.audioEngine, {
+      typingOptions: this.typingOptions,
+      onTypingOptionsChange: (options: TypingOptions) => {
+        const strictChanged = options.strict !== this.typingOptions.strict;
+        this.typingOptions = options;
+
+        // El modo estricto cambia la secuencia a teclear: reiniciar la partida con el texto actual
+        if (strictChanged && this.keyboardController && !this.textSelector.isOpen() && !this.sessionPlayer?.isPlaying() && !this.isGameOver) {
+          this.startGame(this.currentEntry, this.gameMode);
+        } else {
+          this.keyboardController?.setOptions(options);
+        }
+      },
+      oscBridge: this.oscBridge,
+      midiOutput: this.midiOutput,
+      preferences: this.preferences,
+      viewport: this.viewport,
+      visualEffects: this.visualEffects
+    });
   }
 
   /**
@@ -230,7 +547,10 @@ class KeyboardTaleApp {
       this.textDisplay.reset();
     }
 
-    // Volver a inicializar
+    this.gameSession?.dispose();
+    this.gameSession = null;
+
+    // Volver al selector de textos
     this.initialize();
   }
 
@@ -238,39 +558,148 @@ class KeyboardTaleApp {
    * Maneja una tecla presionada
    */
   private handleKeyPress(key: string): void {
-    if (!this.keyboardController) return;
+    if (!this.keyboardController || this.sessionPlayer?.isPlaying() || this.isGameOver) return;
+
+    // Iniciar el controlador si no está activo (en móvil no hay keydown global,
+    // p. ej. al pasar al siguiente texto en los modos que los encadenan)
+    if (!this.keyboardController.getState().isActive) {
+      this.keyboardController.start();
+    }
     this.keyboardController.handleKeyPress(key);
   }
 
   /**
-   * Maneja las señales de audio del controlador
+   * Maneja Backspace (wholeWord: Ctrl/Alt+Backspace)
+   */
+  private handleBackspace(wholeWord: boolean): void {
+    if (!this.keyboardController || this.sessionPlayer?.isPlaying() || this.isGameOver) return;
+    this.keyboardController.handleBackspace(wholeWord);
+  }
+
+  /**
+   * Conecta los subsistemas de la aplicación a los eventos del tecleado
+   */
+  private subscribeToTypingEvents(): void {
+    this.typingEvents.on('keypress', (signal) => this.handleAudioSignal(signal));
+    this.typingEvents.on('stateChange', (state) => this.handleStateChange(state));
+    this.typingEvents.on('reset', () => this.audioEngine.reset());
+
+    // Los finales suenan en el motor (la coda, antes del fundido de handleComplete)
+    BOUNDARY_EVENTS.forEach(event => {
+      this.typingEvents.on(event, (signal) => this.audioEngine.processSignal(signal));
+    });
+    this.typingEvents.on('textComplete', () => this.handleComplete());
+  }
+
+  /**
+   * Maneja las señales de audio de cada tecla y retroceso
    */
   private handleAudioSignal(signal: AudioSignal): void {
-    this.audioEngine.processSignal(signal);
+    // Con la cuantización, las salidas externas esperan al mismo paso que el audio
+    const delay = this.audioEngine.processSignal(signal);
+    this.signalOutputs.forEach(output => output.send(signal, delay));
+    this.visualEffects.trigger(
+      signal,
+      this.textDisplay?.getElementAt({
+        blockIndex: signal.blockIndexInText,
+        wordIndex: signal.wordIndexInBlock,
+        letterIndex: signal.letterIndexInWord
+      }) ?? null,
+      this.audioEngine.getSignalMode(signal)
+    );
+    this.sessionRecorder.recordSignal(signal);
+    this.gameSession?.onSignal(signal);
+
+    // Algunos modos (zen) no cuentan los errores
+    if (!signal.isError || (this.gameSession?.countsErrors ?? true)) {
+      this.typingStats.record(signal);
+    }
+    this.statsOverlay.update(this.typingStats.getSnapshot());
   }
 
   /**
    * Maneja los cambios de estado
    */
   private handleStateChange(state: TypingState): void {
+    this.sessionRecorder.recordState(state);
+
     if (!this.textDisplay) return;
     this.textDisplay.updateState(state);
   }
 
   /**
-   * Maneja la completación del texto
+   * Maneja la completación del texto: el modo de juego decide si la
+   * partida termina o sigue con el siguiente texto del catálogo
    */
   private handleComplete(): void {
+    if (this.gameSession?.onTextComplete() === 'next') {
+      const next = this.getNextEntry();
+      setTimeout(() => {
+        if (!this.isGameOver) this.selectText(next);
+      }, NEXT_TEXT_DELAY_MS);
+      return;
+    }
+
+    this.finishGame();
+  }
+
+  /**
+   * Siguiente texto del catálogo (vuelve al primero tras el último)
+   */
+  private getNextEntry(): TextEntry {
+    const entries = TextLibrary.getAll();
+    const index = entries.findIndex(entry => entry.id === this.currentEntry.id);
+    return entries[(index + 1) % entries.length];
+  }
+
+  /**
+   * Termina la partida: funde el texto y muestra la pantalla final del modo de juego
+   */
+  private finishGame(): void {
+    if (this.isGameOver || !this.gameSession) return;
+    this.isGameOver = true;
+
     console.log('Keyboard Tale completed!');
 
+    if (this.keyboardController?.getState().isActive) {
+      this.keyboardController.stop();
+    }
+    this.restoreUserConfig();
+
+    // Apagar el drone y detener la rejilla y el metrónomo también al terminar
+    // con Escape o al acabarse el tiempo
+    this.audioEngine.reset();
+
+    // La pantalla final se calcula ahora (p. ej. antes de que el sprint deje de contar)
+    const snapshot = this.typingStats.getSnapshot();
+    const summary = this.gameSession.getSummary(snapshot);
+    this.gameSession.dispose();
+
     if (!this.textDisplay) return;
 
     // Fundir a negro
     this.textDisplay.fadeToBlack();
 
-    // Reiniciar después de 3 segundos
+    // Ofrecer la descarga de la grabación (en vivo o reproducida) y su exportación a WAV
+    const recording = this.sessionRecorder.getRecording() ?? this.replayRecording;
+    this.sessionRecorder.stop();
+
+    const actions: SummaryAction[] = recording
+      ? [
+        { label: 'Download recording', onClick: () => SessionRecorder.download(recording) },
+        { label: 'Export WAV (16-bit)', onClick: () => this.exportWav(recording, 16) },
+        { label: 'Export WAV (24-bit)', onClick: () => this.exportWav(recording, 24) }
+      ]
+      : [];
+
+    // Mostrar el resumen después del fundido y reiniciar al cerrarlo
     setTimeout(() => {
-      this.restart();
+      const autoRestart = setTimeout(() => this.statsOverlay.closeSummary(), SUMMARY_DURATION_MS);
+
+      this.statsOverlay.showSummary(snapshot, summary, () => {
+        clearTimeout(autoRestart);
+        this.restart();
+      }, actions);
     }, 3000);
   }
 }
@@ -6,6 +6,7 @@ export interface Character {
   isLetter: boolean;
   isTyped: boolean;
   isError: boolean;
+  typedValue?: string; // Tecla equivocada que se tecleó (si el cursor siguió tras el error)
 }
 
 /**
@@ -14,6 +15,8 @@ export interface Character {
 export interface Word {
   characters: Character[];
   originalText: string;
+  isEmphasized: boolean; // Marcada con *énfasis* en el texto
+  separator?: Character; // Espacio o salto de línea tras la palabra (solo se teclea en modo estricto)
 }
 
 /**
@@ -22,6 +25,7 @@ export interface Word {
 export interface Line {
   words: Word[];
   originalText: string;
+  pauseAfter: number; // Pausa tras la línea, en pulsos ([pause] / [pause:N])
 }
 
 /**
@@ -31,6 +35,122 @@ export interface Block {
   lines: Line[];
   words: Word[]; // Todas las palabras del bloque (para compatibilidad)
   originalText: string;
+  spacingBefore: number; // Líneas en blanco extra antes del bloque
+  audioHints: BlockAudioHints; // Pistas de audio (@mode, @reverb, ...)
+}
+
+/**
+ * Pistas de audio definidas al inicio de un bloque.
+ * Sobrescriben la configuración del motor mientras se teclea ese bloque.
+ */
+export interface BlockAudioHints {
+  synthesisMode?: SynthesisMode;
+  reverbAmount?: number;
+  delayAmount?: number;
+  baseOctave?: number;
+}
+
+/**
+ * Cabecera (front-matter) opcional del texto
+ */
+export interface TextFrontMatter {
+  title?: string;
+  author?: string;
+  language?: string;
+  synthesisMode?: SynthesisMode; // Modo de síntesis por defecto
+  tempo?: number;                // BPM
+  typeable?: TypeablePolicy;     // Qué caracteres hay que teclear
+}
+
+/**
+ * Política que decide qué caracteres hay que teclear (el resto se rellena solo)
+ */
+export type TypeablePolicy =
+  | 'letters'       // Solo letras (\p{L})
+  | 'alphanumeric'  // Letras y dígitos (\p{L}, \p{N})
+  | 'all';          // Todo salvo espacios
+
+/**
+ * Opciones de tecleado elegidas por el usuario
+ */
+export interface TypingOptions {
+  ignoreDiacritics: boolean; // Aceptar "e" para "é"
+  strict: boolean;           // Teclear también espacios, puntuación y saltos de línea (Enter)
+  errorPolicy: ErrorPolicy;  // Qué pasa con el cursor al equivocarse
+}
+
+/**
+ * Comportamiento ante una tecla equivocada
+ */
+export type ErrorPolicy =
+  | 'stop'      // El cursor no avanza hasta teclear el carácter correcto
+  | 'advance'   // El cursor sigue; hay que corregir con Backspace para terminar
+  | 'free';     // El cursor sigue y no se corrige nada
+
+/**
+ * Posición de un carácter tecleable en el texto
+ */
+export interface TextPosition {
+  blockIndex: number;
+  wordIndex: number;
+  letterIndex: number;
+}
+
+/**
+ * Tipo de señal: una tecla, un retroceso (Backspace) o el final de una
+ * palabra, línea, bloque o del texto
+ */
+export type SignalType =
+  | 'keystroke'
+  | 'retreat'
+  | 'wordComplete'
+  | 'lineComplete'
+  | 'blockComplete'
+  | 'textComplete';
+
+/**
+ * Clase de un carácter tecleado (para que cada tipo pueda sonar distinto)
+ */
+export type CharacterClass =
+  | 'letter'       // \p{L}
+  | 'digit'        // \p{N}
+  | 'punctuation'  // \p{P}
+  | 'symbol'       // Cualquier otro carácter visible
+  | 'space'        // Espacio entre palabras
+  | 'lineBreak';   // Salto de línea (Enter)
+
+/**
+ * Preferencias del usuario que se guardan entre sesiones
+ */
+export interface UserPreferences {
+  audioConfig: AudioConfig;
+  typingOptions: TypingOptions;
+  viewport: ViewportConfig;
+  visualEffects: VisualEffectsConfig;
+}
+
+/**
+ * Efectos visuales sincronizados con el audio
+ */
+export interface VisualEffectsConfig {
+  enabled: boolean;
+  intensity: number;        // 0-1: cantidad y brillo de las partículas
+}
+
+/**
+ * Cómo sigue la pantalla al cursor en textos largos
+ */
+export interface ViewportConfig {
+  focalPosition: number;   // Altura de la línea actual en la pantalla (0 = arriba, 1 = abajo)
+  fadeOlderBlocks: boolean; // Atenuar los bloques anteriores según su antigüedad
+  paginate: boolean;        // Mostrar solo el bloque actual
+}
+
+/**
+ * Preset con nombre de las preferencias
+ */
+export interface PreferencesPreset extends UserPreferences {
+  name: string;
 }
 
 /**
@@ -39,6 +159,7 @@ export interface Block {
 export interface ParsedText {
   blocks: Block[];
   originalText: string;
+  frontMatter: TextFrontMatter;
 }
 
 /**
@@ -54,15 +175,37 @@ export interface AudioSignal {
   totalBlocksInText: number;
 
   // Estado
+  signalType: SignalType; // En un retroceso, la posición es la del carácter borrado
   isError: boolean;
+  isEmphasized: boolean;
 
   // Carácter actual
   character: string;
+  characterClass: CharacterClass;
+  typedCharacter?: string; // Tecla pulsada (ausente en los retrocesos)
 
   // Timestamp
   timestamp: number;
 }
 
+/**
+ * Eventos del tecleado que se publican en el EventBus.
+ * Los finales (palabra, línea, bloque, texto) llevan la señal de la tecla que
+ * los completa y se emiten después de su cambio de estado.
+ */
+export interface TypingEventMap {
+  keypress: AudioSignal;      // Cualquier tecla o retroceso
+  correct: AudioSignal;
+  error: AudioSignal;
+  retreat: AudioSignal;
+  wordComplete: AudioSignal;
+  lineComplete: AudioSignal;
+  blockComplete: AudioSignal;
+  textComplete: AudioSignal;
+  stateChange: TypingState;
+  reset: void;
+}
+
 /**
  * Estado actual del sistema de tecleado
  */
@@ -76,14 +219,10 @@ export interface TypingState {
 }
 
 /**
- * Modos de síntesis disponibles
+ * Identificador de un modo de síntesis registrado en el SynthesisModeRegistry
+ * (los incluidos son 'granular', 'pentatonic', 'harmonic', 'microtonal' y 'ambient')
  */
-export type SynthesisMode =
-  | 'granular'      // Modo original (Pure Data inspired)
-  | 'pentatonic'    // Escala pentatónica
-  | 'harmonic'      // Serie armónica
-  | 'microtonal'    // Escala microtonal
-  | 'ambient';      // Modo ambiental con delays largos
+export type SynthesisMode = string;
 
 /**
  * Configuración del motor de audio
@@ -99,4 +238,312 @@ export interface AudioConfig {
   delayEnabled: boolean;
   delayAmount: number;
   panningEnabled: boolean;
+  droneEnabled: boolean;   // Fondo continuo que evoluciona con el texto
+  droneLevel: number;      // 0-1
+  characterPitch: CharacterPitchMapping;
+  characterTimbre: boolean; // Ataque de ruido en las consonantes según su tipo
+  vowelFormants: boolean;   // Filtros de formantes en las vocales
+  samplePack: string;       // Paquete del modo de muestras ('' = el incluido por defecto)
+  tuningRoot: number;       // Tónica: semitonos sobre Do (0-11)
+  scale: ScaleName;         // Escala de los modos musicales ('mode' = la propia de cada modo)
+  customScale: string;      // Intervalos de la escala 'custom' (semitonos separados por espacios)
+  tuningSystem: TuningSystem;
+  edoDivisions: number;     // Divisiones de la octava del sistema 'edo'
+  tempo: number;            // BPM (la cabecera tempo: del texto tiene prioridad al cargarlo)
+  quantize: boolean;        // Encajar las notas en la rejilla del Transport
+  quantizeSubdivision: QuantizeSubdivision;
+  quantizeSwing: number;    // 0-1 (como Tone.Transport.swing)
+  metronome: boolean;       // Clic en cada tiempo mientras se cuantiza
+  errorSound: ErrorSound;
+  errorEscalation: boolean; // Errores más intensos al fallar seguido la misma letra
+}
+
+/**
+ * Timbre de los errores
+ */
+export type ErrorSound =
+  | 'cluster'   // Cluster disonante grave
+  | 'noise'     // Golpe de ruido filtrado
+  | 'detuned'   // La nota que debía sonar, desafinada
+  | 'silence';  // Sin sonido
+
+/**
+ * Subdivisión de la rejilla de cuantización (notación de Tone.js)
+ */
+export type QuantizeSubdivision =
+  | '4n'   // Negras
+  | '8n'   // Corcheas
+  | '16n'  // Semicorcheas
+  | '8t';  // Tresillos de corchea
+
+/**
+ * Escalas disponibles para los modos musicales
+ */
+export type ScaleName =
+  | 'mode'            // La escala propia de cada modo
+  | 'major'
+  | 'minor'
+  | 'dorian'
+  | 'phrygian'
+  | 'lydian'
+  | 'mixolydian'
+  | 'locrian'
+  | 'majorPentatonic'
+  | 'minorPentatonic'
+  | 'chromatic'
+  | 'custom';         // Los intervalos de customScale
+
+/**
+ * Sistema de afinación de las notas
+ */
+export type TuningSystem =
+  | 'equal'   // Temperamento igual de 12 notas
+  | 'just'    // Entonación justa (razones de 5 límites sobre la tónica)
+  | 'edo'     // División igual de la octava en edoDivisions pasos
+  | 'scala';  // Archivo .scl (y .kbm opcional) cargado desde el panel
+
+/**
+ * Escala leída de un archivo Scala (.scl)
+ */
+export interface ScalaScale {
+  description: string;
+  pitches: number[]; // Cents de los grados 1..n (el último es el periodo, normalmente la octava)
+}
+
+/**
+ * Mapa de teclado leído de un archivo Scala (.kbm)
+ */
+export interface KeyboardMapping {
+  size: number;                // Tamaño del patrón (0 = todos los grados en orden)
+  middleNote: number;          // Nota MIDI del grado 0
+  referenceNote: number;       // Nota MIDI con frecuencia conocida
+  referenceFrequency: number;  // Hz
+  octaveDegree: number;        // Grado que hace de periodo (0 = el de la escala)
+  mapping: (number | null)[];  // Grado de cada tecla del patrón (null = sin nota)
+}
+
+/**
+ * Qué asocia el manifiesto de un paquete de muestras a cada archivo
+ */
+export type SamplePackMapping =
+  | 'letters'   // Una muestra por letra ("a", "b", ...)
+  | 'degrees';  // Una muestra por grado de la escala ("0", "1", ...)
+
+/**
+ * Manifiesto JSON de un paquete de muestras (manifest.json junto a los audios)
+ */
+export interface SamplePackManifest {
+  name: string;
+  mapping: SamplePackMapping;
+  samples: Record<string, string>; // Letra o grado -> nombre del archivo
+}
+
+/**
+ * Paquete de muestras del catálogo, con las URLs de sus audios ya resueltas
+ */
+export interface SamplePack {
+  id: string;
+  name: string;
+  mapping: SamplePackMapping;
+  urls: Record<string, string>;
+  isLocal: boolean; // Cargado desde el disco (solo hasta recargar la página)
+}
+
+/**
+ * Progreso de la decodificación de un paquete de muestras
+ */
+export interface SamplePackProgress {
+  id: string;
+  loaded: number; // Muestras decodificadas
+  total: number;
+  error?: string; // Mensaje si la carga falló
+}
+
+/**
+ * Eventos del catálogo de paquetes de muestras
+ */
+export interface SamplePackEventMap {
+  progress: SamplePackProgress;
+}
+
+/**
+ * Qué decide el grado de la escala de cada letra (la octava sigue dependiendo de la palabra)
+ */
+export type CharacterPitchMapping =
+  | 'position'  // Posición de la letra en la palabra
+  | 'letter'    // La propia letra (orden alfabético)
+  | 'blend';    // La letra desplazada por su posición
+
+/**
+ * Metadatos descriptivos de un texto del catálogo
+ */
+export interface TextMetadata {
+  title: string;
+  author: string;
+  language: string;
+}
+
+/**
+ * Entrada del catálogo de textos (un archivo de src/data/texts/)
+ */
+export interface TextEntry {
+  id: string;
+  fileName: string;
+  metadata: TextMetadata;
+  content: string;
+}
+
+/**
+ * Latencia media de una tecla o de un par de teclas (bigrama)
+ */
+export interface KeyLatency {
+  key: string;
+  averageMs: number;
+  count: number;
+}
+
+/**
+ * Carácter esperado con más errores
+ */
+export interface ErrorHotspot {
+  character: string;
+  errors: number;
+}
+
+/**
+ * Estadísticas de tecleado en un momento dado
+ */
+export interface TypingStatsSnapshot {
+  elapsedMs: number;
+  wpm: number;               // Palabras por minuto (5 caracteres = 1 palabra)
+  cpm: number;               // Caracteres correctos por minuto
+  accuracy: number;          // 0-1
+  totalKeystrokes: number;
+  correctKeystrokes: number;
+  errors: number;
+  letterLatencies: KeyLatency[];  // Ordenadas de más lenta a más rápida
+  bigramLatencies: KeyLatency[];  // Ordenadas de más lenta a más rápida
+  errorHotspots: ErrorHotspot[];  // Ordenados de más a menos errores
+  blockDurations: number[];       // ms por bloque (índice = bloque)
+}
+
+/**
+ * Identificador de un modo de juego registrado (ver GameModeRegistry)
+ */
+export type GameModeId = string;
+
+/**
+ * Qué hacer al completar un texto: terminar la partida o seguir con el siguiente
+ */
+export type TextCompletion = 'finish' | 'next';
+
+/**
+ * Dato destacado de la pantalla final
+ */
+export interface SummaryHighlight {
+  label: string;
+  value: string;
+}
+
+/**
+ * Pantalla final de una partida, definida por su modo de juego
+ */
+export interface GameSummary {
+  title: string;
+  highlights: SummaryHighlight[];
+  showErrors: boolean;   // Lista de letras más falladas
+  showBlocks: boolean;   // Duración por bloque (solo tiene sentido con un texto)
+}
+
+/**
+ * Opciones de visualización del texto
+ */
+export interface TextDisplayOptions {
+  strict: boolean;        // Espacios, puntuación y saltos de línea tecleables
+  hideUpcoming: boolean;  // Ocultar lo que queda por teclear (modo a ciegas)
+}
+
+/**
+ * Evento grabado: la señal de una tecla y el estado resultante
+ */
+export interface RecordedEvent {
+  signal: AudioSignal;
+  state: TypingState;
+}
+
+/**
+ * Grabación completa de una interpretación (formato de archivo versionado)
+ */
+export interface SessionRecording {
+  format: 'keyboard-tale-session';
+  version: number;
+  recordedAt: string; // ISO 8601
+  text: {
+    id: string;
+    title: string;
+    hash: string;     // Huella del contenido, para detectar textos modificados
+  };
+  audioConfig: AudioConfig;
+  typingOptions?: TypingOptions; // Ausente en grabaciones anteriores al modo estricto
+  events: RecordedEvent[];
+}
+
+/**
+ * Resolución de los archivos WAV exportados
+ */
+export type WavBitDepth = 16 | 24;
+
+/**
+ * Configuración del puente OSC (WebSocket -> relay local -> UDP)
+ *
+ * Las direcciones admiten los marcadores {block}, {word}, {letter} y {char}
+ * ({char} fuera de las letras y dígitos ASCII: 'space', 'newline' o 'u' + código Unicode).
+ */
+export interface OscBridgeConfig {
+  enabled: boolean;
+  url: string;            // WebSocket del relay local
+  correctAddress: string; // Dirección OSC para teclas correctas
+  errorAddress: string;   // Dirección OSC para errores
+  retreatAddress: string; // Dirección OSC para retrocesos (Backspace)
+}
+
+/**
+ * Estado de la conexión del puente OSC con el relay
+ */
+export type OscBridgeStatus =
+  | 'off'           // Salida desactivada
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'  // Se cerró la conexión: se reintenta
+  | 'invalidUrl';
+
+/**
+ * Eventos del puente OSC
+ */
+export interface OscBridgeEventMap {
+  status: OscBridgeStatus;
+}
+
+/**
+ * Argumento de un mensaje OSC
+ */
+export type OscArgument = number | string | boolean;
+
+/**
+ * Salida externa que recibe cada señal de tecleado (OSC, MIDI, ...)
+ */
+export interface SignalOutput {
+  send(signal: AudioSignal, delay?: number): void; // delay: segundos hasta que suena (cuantización)
+  dispose(): void;
+}
+
+/**
+ * Configuración de la salida MIDI
+ */
+export interface MidiOutputConfig {
+  baseOctave: number;      // Octava de la primera palabra del bloque
+  noteLengthMs: number;    // Duración de cada nota
+  errorNote: number;       // Nota MIDI para los errores
+  blockProgressCC: number; // CC con el progreso en el texto (bloque)
+  wordProgressCC: number;  // CC con el progreso en el bloque (palabra)
 }
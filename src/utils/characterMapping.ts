@@ -0,0 +1,85 @@
+import type { AudioSignal, CharacterPitchMapping } from '../types';
+
+/**
+ * Relaciones letra -> grado de la escala disponibles
+ */
+export const CHARACTER_PITCH_MAPPINGS: readonly CharacterPitchMapping[] = ['position', 'letter', 'blend'];
+
+/**
+ * Vocales (sin diacríticos)
+ */
+export type Vowel = 'a' | 'e' | 'i' | 'o' | 'u';
+
+/**
+ * Tres primeros formantes de cada vocal (Hz, voz adulta media)
+ */
+export const VOWEL_FORMANTS: Record<Vowel, [number, number, number]> = {
+  a: [730, 1090, 2440],
+  e: [530, 1840, 2480],
+  i: [270, 2290, 3010],
+  o: [570, 840, 2410],
+  u: [300, 870, 2240]
+};
+
+/**
+ * Familias de consonantes con el centro (Hz) de su golpe de ruido:
+ * sibilantes agudas, fricativas, oclusivas y nasales/líquidas graves
+ */
+const CONSONANT_NOISE: { letters: string; frequency: number }[] = [
+  { letters: 'sczx', frequency: 6000 },
+  { letters: 'fvhj', frequency: 3500 },
+  { letters: 'pbtdkgq', frequency: 1500 },
+  { letters: 'mnlrñ', frequency: 500 }
+];
+
+const DEFAULT_CONSONANT_FREQUENCY = 2500;
+
+/**
+ * Letra base en minúscula, sin diacríticos ("É" -> "e"; la "ñ" se conserva)
+ */
+export function getBaseLetter(char: string): string {
+  const lower = char.toLowerCase();
+  return lower === 'ñ' ? lower : lower.normalize('NFD').charAt(0);
+}
+
+/**
+ * Índice de una letra en el alfabeto (a = 0) o de un dígito (0-9);
+ * los caracteres de otros alfabetos se reparten por su código
+ */
+export function getLetterIndex(char: string): number {
+  const base = getBaseLetter(char);
+  if (base >= 'a' && base <= 'z') return base.charCodeAt(0) - 97;
+  if (base >= '0' && base <= '9') return base.charCodeAt(0) - 48;
+  return (base.codePointAt(0) ?? 0) % 26;
+}
+
+/**
+ * Grado de la escala de una señal según la relación elegida
+ * (los modos lo reducen al tamaño de su escala)
+ */
+export function getPitchStep(signal: AudioSignal, mapping: CharacterPitchMapping): number {
+  switch (mapping) {
+    case 'letter':
+      return getLetterIndex(signal.character);
+    case 'blend':
+      return getLetterIndex(signal.character) + signal.letterIndexInWord;
+    default:
+      return signal.letterIndexInWord;
+  }
+}
+
+/**
+ * Vocal de un carácter ("á" -> "a"), o null si no es una vocal
+ */
+export function getVowel(char: string): Vowel | null {
+  const base = getBaseLetter(char);
+  return base in VOWEL_FORMANTS ? base as Vowel : null;
+}
+
+/**
+ * Centro (Hz) del golpe de ruido de una consonante según su familia
+ */
+export function getConsonantNoiseFrequency(char: string): number {
+  const base = getBaseLetter(char);
+  return CONSONANT_NOISE.find(group => group.letters.includes(base))?.frequency ?? DEFAULT_CONSONANT_FREQUENCY;
+}
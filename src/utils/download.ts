@@ -0,0 +1,14 @@
+/**
+ * Descarga un blob como archivo desde el navegador
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  // Revocar en el mismo tick puede cancelar la descarga en algunos navegadores
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
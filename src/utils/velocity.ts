@@ -0,0 +1,29 @@
+/**
+ * Calcula la velocidad (0-1) a partir del tiempo entre teclas (ms).
+ * La comparten el motor de audio y las salidas externas (MIDI) para que
+ * la dinámica sea la misma en todas.
+ */
+export function calculateVelocity(timeDelta: number): number {
+  // Mapear tiempo entre teclas (ms) a velocidad (0-1)
+  // Tecleo rápido (< 100ms) = velocidad alta
+  // Tecleo lento (> 500ms) = velocidad baja
+  const minTime = 50;
+  const maxTime = 500;
+
+  const normalized = Math.max(minTime, Math.min(timeDelta, maxTime));
+  const velocity = 1 - ((normalized - minTime) / (maxTime - minTime));
+
+  return velocity;
+}
+
+/**
+ * Calcula la duración de una nota (notación de Tone) a partir de la velocidad
+ */
+export function calculateDuration(velocity: number): string {
+  // Velocidad alta = notas más cortas
+  // Velocidad baja = notas más largas
+  if (velocity > 0.8) return '16n';
+  if (velocity > 0.6) return '8n';
+  if (velocity > 0.4) return '4n';
+  return '2n';
+}
@@ -10,3 +10,9 @@ declare module '*.txt?raw' {
   const content: string;
   export default content;
 }
+
+// Patches de Pure Data (p. ej. previous/kt.pd) como raw strings
+declare module '*.pd?raw' {
+  const content: string;
+  export default content;
+}